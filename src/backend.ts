@@ -0,0 +1,183 @@
+import type { IncusClient } from './incus';
+import type { ResolvedNetworkPolicy } from './network';
+import type {
+  CommandInput,
+  CreateProjectOptions,
+  FileWatchEvent,
+  ImageInfo,
+  ProjectInfo,
+  SandboxInfo,
+  SandboxLimits,
+  SandboxMetrics,
+  SandboxState,
+  SandboxType,
+  SnapshotInfo,
+  TerminalOptions,
+  TerminalSession,
+  WatchOptions,
+} from './types';
+
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+export interface ExecOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+  user?: string;
+  timeout?: number;
+  stdin?: CommandInput;
+  onStdout?: (chunk: string) => void;
+  onStderr?: (chunk: string) => void;
+}
+
+export interface InstanceSummary {
+  name: string;
+  type: SandboxType;
+  state: SandboxState;
+  createdAt: Date;
+}
+
+export interface DeviceConfig {
+  type: string;
+  source?: string;
+  path?: string;
+  readonly?: string;
+  shift?: string;
+  size?: string;
+  pool?: string;
+  network?: string;
+  listen?: string;
+  connect?: string;
+  bind?: string;
+  'limits.max'?: string;
+  'limits.ingress'?: string;
+  'limits.egress'?: string;
+  'security.acls'?: string;
+  'security.acls.default.egress.action'?: string;
+  'security.acls.default.ingress.action'?: string;
+}
+
+export interface WatchHandle {
+  close(): void;
+  /** Settles when the watch ends, rejecting if it could not be kept up. */
+  done: Promise<void>;
+}
+
+/**
+ * Everything the SDK needs from Incus. The default implementation talks to the
+ * daemon over its unix socket; tests can swap in `FakeIncusBackend`.
+ */
+export interface IncusBackend {
+  checkIncusAvailable(): Promise<boolean>;
+  listInstances(options?: { type?: SandboxType | 'all'; state?: SandboxState; prefix?: string }): Promise<SandboxInfo[]>;
+  getInstance(name: string): Promise<InstanceSummary | null>;
+  getInstanceInfo(name: string): Promise<SandboxInfo | null>;
+  getInstanceMetrics(name: string): Promise<SandboxMetrics>;
+  /** Creates and, unless `start` is false, starts an instance from `image`. */
+  launchInstance(
+    name: string,
+    image: string,
+    type: SandboxType,
+    limits?: SandboxLimits,
+    profiles?: string[],
+    config?: Record<string, string>,
+    start?: boolean
+  ): Promise<void>;
+  /**
+   * Copies an instance, or one of its snapshots, without its snapshots. The
+   * copy is adjusted with `prepareFork` before it is started.
+   */
+  copyInstance(
+    source: string,
+    name: string,
+    options: { snapshot?: string; config: Record<string, string>; keepMounts: boolean }
+  ): Promise<void>;
+  /** Merges limits into the instance, copying profile devices where needed. */
+  setLimits(name: string, limits: SandboxLimits): Promise<void>;
+  deleteInstance(name: string, force?: boolean): Promise<void>;
+  startInstance(name: string): Promise<void>;
+  stopInstance(name: string, force?: boolean, timeout?: number): Promise<void>;
+  restartInstance(name: string): Promise<void>;
+  execInInstance(name: string, command: string[], options?: ExecOptions): Promise<ExecResult>;
+  openTerminal(name: string, options?: TerminalOptions): Promise<TerminalSession>;
+  readFile(name: string, remotePath: string): Promise<Uint8Array>;
+  writeFile(name: string, remotePath: string, content: Uint8Array, options?: { mode?: number }): Promise<void>;
+  /** Extracts a tar archive into `remoteDir`. A `timeout` of 0 or none means no limit. */
+  uploadArchive(name: string, remoteDir: string, archive: Uint8Array, options?: { timeout?: number }): Promise<void>;
+  /**
+   * Archives `remoteDir`. Paths matching an `exclude` pattern, and everything
+   * under them, may be left out; callers still filter what arrives.
+   */
+  downloadArchive(
+    name: string,
+    remoteDir: string,
+    options?: { dereference?: boolean; exclude?: string[]; timeout?: number }
+  ): Promise<Uint8Array>;
+  watchFiles(
+    name: string,
+    path: string,
+    options: WatchOptions,
+    onEvent: (event: FileWatchEvent) => void
+  ): Promise<WatchHandle>;
+  pushFile(name: string, localPath: string, remotePath: string): Promise<void>;
+  pullFile(name: string, remotePath: string, localPath: string): Promise<void>;
+  createSnapshot(name: string, snapshotName: string): Promise<void>;
+  restoreSnapshot(name: string, snapshotName: string): Promise<void>;
+  deleteSnapshot(name: string, snapshotName: string): Promise<void>;
+  listSnapshots(name: string): Promise<SnapshotInfo[]>;
+  addDiskDevice(
+    instanceName: string,
+    deviceName: string,
+    source: string,
+    path: string,
+    options?: { readonly?: boolean; shift?: boolean }
+  ): Promise<void>;
+  removeDiskDevice(instanceName: string, deviceName: string): Promise<void>;
+  addProxyDevice(instanceName: string, deviceName: string, listen: string, connect: string): Promise<void>;
+  removeProxyDevice(instanceName: string, deviceName: string): Promise<void>;
+  listDevices(instanceName: string): Promise<Record<string, DeviceConfig>>;
+  listImages(): Promise<ImageInfo[]>;
+  /** Looks up a local image by alias or fingerprint (or a unique prefix of one). */
+  getImage(ref: string): Promise<ImageInfo | null>;
+  /** Publishes an instance, or one of its snapshots, as a local image and returns its fingerprint. */
+  publishImage(
+    instanceName: string,
+    options: { snapshot?: string; description?: string; public?: boolean; properties?: Record<string, string> }
+  ): Promise<string>;
+  /** Downloads a `<remote>:<alias>` image into the local store and returns its fingerprint. */
+  copyImage(image: string, options: { autoUpdate?: boolean }): Promise<string>;
+  /** Creates the alias, or moves it if it already points elsewhere. */
+  setImageAlias(alias: string, fingerprint: string): Promise<void>;
+  deleteImage(fingerprint: string): Promise<void>;
+  listProjects(): Promise<ProjectInfo[]>;
+  createProject(name: string, options: CreateProjectOptions): Promise<void>;
+  deleteProject(name: string): Promise<void>;
+  /** Sets an instance config key; an empty value removes it, like `incus config set k ""`. */
+  setInstanceConfig(instanceName: string, key: string, value: string): Promise<void>;
+  /** Points the sandbox's NIC at its egress ACL (creating, updating or deleting it), or masks the NIC. */
+  applyNetworkPolicy(instanceName: string, policy: ResolvedNetworkPolicy): Promise<void>;
+  getInstanceConfig(instanceName: string, key: string): Promise<string | null>;
+}
+
+let defaultClient: IncusClient | undefined;
+
+/** Registers the client that code without one of its own falls back to. */
+export function setDefaultClient(client: IncusClient): void {
+  defaultClient = client;
+}
+
+/** The default client (`incus`), for code that isn't handed a client. */
+export function getDefaultClient(): IncusClient {
+  if (!defaultClient) {
+    throw new Error('No default Incus client has been registered');
+  }
+  return defaultClient;
+}
+
+/** The default client's backend, e.g. for `new Sandbox(name, type)`. */
+export function getBackend(): IncusBackend {
+  return getDefaultClient().getBackend();
+}
@@ -0,0 +1,238 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import { basename, dirname, posix, resolve } from 'path';
+import { collectEntries } from './filesystem';
+import { describeStep, loadRecipe, validateRecipe } from './recipe';
+import { Sandbox } from './sandbox';
+import { CommandError, PathNotFoundError } from './errors';
+import type { IncusClient } from './incus';
+import type { BuildOptions, ImageInfo, ImageRecipe, RecipeStep, SandboxType } from './types';
+
+/** Build sandboxes are named after the alias and kept, stopped, between builds. */
+export const BUILD_SANDBOX_PREFIX = 'isb-build-';
+/** Snapshots on the build sandbox holding the state after each step. */
+export const STEP_SNAPSHOT_PREFIX = 'isb-step-';
+/** Image property recording which recipe state an image was built from. */
+export const BUILD_KEY_PROPERTY = 'isb.build-key';
+
+const DEFAULT_STEP_TIMEOUT = 10 * 60 * 1000;
+const DEFAULT_WORKDIR = '/root';
+
+interface PlannedStep {
+  step: RecipeStep;
+  description: string;
+  /** Hash of everything up to and including this step */
+  key: string;
+  snapshot: string;
+  copy?: { source: string; directory: boolean; target: string };
+}
+
+function digest(...parts: string[]): string {
+  return createHash('sha256').update(parts.join('\0')).digest('hex');
+}
+
+function stepSnapshot(index: number, key: string): string {
+  return `${STEP_SNAPSHOT_PREFIX}${index}-${key.slice(0, 12)}`;
+}
+
+export function buildSandboxName(alias: string): string {
+  const slug = alias
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 40)
+    .replace(/^-+|-+$/g, '');
+  // The hash keeps aliases that slug the same (`a/b`, `a-b`) apart.
+  return `${BUILD_SANDBOX_PREFIX}${slug ? `${slug}-` : ''}${digest(alias).slice(0, 6)}`;
+}
+
+/** Hashes what a copy step would upload: paths, modes and contents, not mtimes. */
+async function hashSource(source: string, directory: boolean, ignore?: string[]): Promise<string> {
+  const hash = createHash('sha256');
+  if (!directory) {
+    const stat = await fs.stat(source);
+    return hash.update(`${stat.mode & 0o7777}\0`).update(await fs.readFile(source)).digest('hex');
+  }
+  for (const entry of await collectEntries(source, { ignore })) {
+    hash.update(`${entry.path}\0${entry.type}\0${entry.mode & 0o7777}\0${entry.linkname ?? ''}\0`);
+    if (entry.content) hash.update(entry.content);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Chains a key through the steps, so a step's key changes whenever it or any
+ * step before it does. Host files are read here, before any sandbox exists.
+ */
+async function planBuild(
+  recipe: ImageRecipe,
+  context: string,
+  base: string,
+  type: SandboxType
+): Promise<{ baseKey: string; steps: PlannedStep[] }> {
+  const workdir = recipe.workdir ?? DEFAULT_WORKDIR;
+  const baseKey = digest('base', base, type, workdir, JSON.stringify(Object.entries(recipe.env ?? {}).sort()));
+  let key = baseKey;
+
+  const steps: PlannedStep[] = [];
+  for (const [i, step] of recipe.steps.entries()) {
+    let copy: PlannedStep['copy'];
+    if ('run' in step) {
+      key = digest(key, 'run', step.run);
+    } else {
+      const source = resolve(context, step.copy.from);
+      const stat = await fs.stat(source).catch(() => null);
+      if (!stat) {
+        throw new PathNotFoundError(source);
+      }
+      const directory = stat.isDirectory();
+      let target = posix.resolve(workdir, step.copy.to);
+      if (!directory && step.copy.to.endsWith('/')) {
+        target = posix.join(target, basename(source));
+      }
+      copy = { source, directory, target };
+      key = digest(key, 'copy', target, String(directory), await hashSource(source, directory, step.copy.ignore));
+    }
+    steps.push({ step, description: describeStep(step), key, snapshot: stepSnapshot(i + 1, key), copy });
+  }
+  return { baseKey, steps };
+}
+
+/**
+ * Opens the alias's build sandbox at the longest cached prefix of `chain`.
+ * Returns the index of the last snapshot in place, or -1 for a fresh sandbox.
+ */
+async function openBuildSandbox(
+  client: IncusClient,
+  name: string,
+  recipe: ImageRecipe,
+  base: string,
+  type: SandboxType,
+  chain: string[]
+): Promise<{ sandbox: Sandbox; done: number }> {
+  const backend = client.getBackend();
+  const existing = await backend.getInstance(name);
+  if (existing) {
+    const sandbox = new Sandbox(name, existing.type, backend);
+    const snapshots = new Set((await sandbox.listSnapshots()).map((s) => s.name));
+    let done = -1;
+    while (done + 1 < chain.length && snapshots.has(chain[done + 1]!)) done++;
+
+    if (done >= 0) {
+      // Snapshots past the cached prefix belong to older versions of the
+      // recipe. Dropping them also leaves the restore target as the newest
+      // snapshot, which ZFS requires.
+      const keep = new Set(chain.slice(0, done + 1));
+      for (const snapshot of snapshots) {
+        if (!keep.has(snapshot)) await sandbox.deleteSnapshot(snapshot);
+      }
+      return { sandbox, done };
+    }
+    await sandbox.destroy();
+  }
+
+  const sandbox = await client.sandbox.create({ name, image: base, type, labels: { 'isb.build': recipe.alias } });
+  return { sandbox, done: -1 };
+}
+
+async function runStep(sandbox: Sandbox, planned: PlannedStep, recipe: ImageRecipe, options?: BuildOptions): Promise<void> {
+  const { step } = planned;
+  if ('copy' in step) {
+    const { source, directory, target } = planned.copy!;
+    if (directory) {
+      await sandbox.fs.uploadDir(source, target, { ignore: step.copy.ignore });
+    } else {
+      await sandbox.fs.push(source, target);
+    }
+    return;
+  }
+
+  const result = await sandbox.runCommand(step.run, {
+    cwd: recipe.workdir ?? DEFAULT_WORKDIR,
+    env: recipe.env,
+    timeout: options?.stepTimeout ?? DEFAULT_STEP_TIMEOUT,
+    onStdout: options?.onStdout,
+    onStderr: options?.onStderr,
+  });
+  if (result.exitCode !== 0) {
+    const detail = result.stderr.trim().split('\n').at(-1);
+    throw new CommandError(`'${planned.description}' exited with code ${result.exitCode}${detail ? `: ${detail}` : ''}`);
+  }
+}
+
+/**
+ * Builds an image from a recipe (or a recipe file) and publishes it under the
+ * recipe's alias. Each step's result is snapshotted on a build sandbox kept
+ * per alias, so a rebuild restores the longest unchanged prefix and only runs
+ * what follows it; an unchanged recipe whose image is still published does
+ * nothing. `cache: false` builds in a throwaway sandbox instead.
+ */
+export async function buildImage(
+  client: IncusClient,
+  recipe: ImageRecipe | string,
+  options?: BuildOptions
+): Promise<ImageInfo> {
+  const parsed = typeof recipe === 'string' ? await loadRecipe(recipe) : validateRecipe(recipe);
+  const context = resolve(options?.context ?? (typeof recipe === 'string' ? dirname(recipe) : '.'));
+  const config = client.getConfig();
+  const base = parsed.base ?? config.defaultImage;
+  const type = parsed.type ?? config.defaultType;
+  const cache = options?.cache ?? true;
+
+  const { baseKey, steps } = await planBuild(parsed, context, base, type);
+  const chain = [stepSnapshot(0, baseKey), ...steps.map((s) => s.snapshot)];
+  const finalKey = steps.at(-1)?.key ?? baseKey;
+  const report = (index: number, cached: boolean) =>
+    options?.onStep?.({ index: index + 1, total: steps.length, description: steps[index]!.description, cached });
+
+  const backend = client.getBackend();
+  const previous = await backend.getImage(parsed.alias);
+  if (cache && previous?.properties[BUILD_KEY_PROPERTY] === finalKey) {
+    steps.forEach((_, i) => report(i, true));
+    return previous;
+  }
+
+  const { sandbox, done } = cache
+    ? await openBuildSandbox(client, buildSandboxName(parsed.alias), parsed, base, type, chain)
+    : { sandbox: await client.sandbox.create({ image: base, type, autoDestroy: true }), done: -1 };
+
+  try {
+    for (let i = 0; i < done; i++) report(i, true);
+
+    if (done < chain.length - 1) {
+      if (done >= 0) {
+        await sandbox.restore(chain[done]!);
+        if ((await sandbox.getState()) !== 'running') await sandbox.start();
+      } else {
+        await sandbox.fs.mkdir(parsed.workdir ?? DEFAULT_WORKDIR, { recursive: true });
+        if (cache) await sandbox.snapshot(chain[0]!);
+      }
+      for (let i = Math.max(done, 0); i < steps.length; i++) {
+        report(i, false);
+        await runStep(sandbox, steps[i]!, parsed, options);
+        if (cache) await sandbox.snapshot(steps[i]!.snapshot);
+      }
+    }
+
+    const image = await sandbox.publish({
+      alias: parsed.alias,
+      description: parsed.description,
+      fromSnapshot: cache ? chain.at(-1) : undefined,
+      properties: { [BUILD_KEY_PROPERTY]: finalKey },
+    });
+
+    // Earlier builds are replaced rather than left behind without an alias.
+    if (previous && previous.fingerprint !== image.fingerprint && previous.properties[BUILD_KEY_PROPERTY]) {
+      const stale = await backend.getImage(previous.fingerprint);
+      if (stale && stale.aliases.length === 0) {
+        await backend.deleteImage(stale.fingerprint).catch(() => {});
+      }
+    }
+    return image;
+  } finally {
+    if (!cache) {
+      await sandbox.destroy().catch(() => {});
+    } else if ((await sandbox.getState().catch(() => 'stopped')) === 'running') {
+      await sandbox.stop().catch(() => {});
+    }
+  }
+}
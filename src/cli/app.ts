@@ -8,18 +8,34 @@ import { startCommand } from './commands/start';
 import { stopCommand } from './commands/stop';
 import { restartCommand } from './commands/restart';
 import { infoCommand } from './commands/info';
+import { limitsCommand } from './commands/limits';
+import { topCommand } from './commands/top';
+import { networkCommand } from './commands/network';
+import { gcCommand } from './commands/gc';
 import { execCommand } from './commands/exec';
 import { runCommand } from './commands/run';
+import { shellCommand } from './commands/shell';
+import { psCommand } from './commands/ps';
+import { killCommand } from './commands/kill';
 import { pushCommand } from './commands/push';
 import { pullCommand } from './commands/pull';
 import { catCommand } from './commands/cat';
 import { lsCommand } from './commands/ls';
+import { watchCommand } from './commands/watch';
 import { mountCommand } from './commands/mount';
 import { unmountCommand } from './commands/unmount';
 import { mountsCommand } from './commands/mounts';
+import { exposeCommand } from './commands/expose';
+import { unexposeCommand } from './commands/unexpose';
+import { portsCommand } from './commands/ports';
+import { gatewayCommand } from './commands/gateway';
 import { snapshotCommand } from './commands/snapshot';
 import { restoreCommand } from './commands/restore';
 import { snapshotsCommand } from './commands/snapshots';
+import { forkCommand } from './commands/fork';
+import { imageRoutes } from './commands/image';
+import { buildImageCommand } from './commands/build';
+import { projectRoutes } from './commands/project';
 
 const routes = buildRouteMap({
   routes: {
@@ -30,21 +46,41 @@ const routes = buildRouteMap({
     stop: stopCommand,
     restart: restartCommand,
     info: infoCommand,
+    limits: limitsCommand,
+    top: topCommand,
+    network: networkCommand,
+    gc: gcCommand,
     exec: execCommand,
     run: runCommand,
+    shell: shellCommand,
+    ps: psCommand,
+    kill: killCommand,
     push: pushCommand,
     pull: pullCommand,
     cat: catCommand,
     ls: lsCommand,
+    watch: watchCommand,
     mount: mountCommand,
     unmount: unmountCommand,
     mounts: mountsCommand,
+    expose: exposeCommand,
+    unexpose: unexposeCommand,
+    ports: portsCommand,
+    gateway: gatewayCommand,
     snapshot: snapshotCommand,
     restore: restoreCommand,
     snapshots: snapshotsCommand,
+    fork: forkCommand,
+    image: imageRoutes,
+    build: buildImageCommand,
+    project: projectRoutes,
   },
   docs: {
     brief: 'Incus Sandbox CLI',
+    fullDescription:
+      'Global flags, given before the command:\n' +
+      '  --remote <name>   Incus remote from the incus CLI config (default: local)\n' +
+      '  --project <name>  Incus project to work in (default: default)',
   },
 });
 
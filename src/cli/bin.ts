@@ -2,10 +2,22 @@
 import { run } from '@stricli/core';
 import { app } from './app';
 import { buildContext } from './context';
+import { extractGlobalFlags } from './globals';
+import { incus } from '../index';
 
 const context = buildContext(process);
 
-run(app, process.argv.slice(2), context).catch((err) => {
+let args: string[];
+try {
+  const global = extractGlobalFlags(process.argv.slice(2));
+  incus.setConfig({ ...incus.getConfig(), ...global.config });
+  args = global.args;
+} catch (err) {
+  process.stderr.write(`Error: ${(err as Error).message}\n`);
+  process.exit(1);
+}
+
+run(app, args, context).catch((err) => {
   process.stderr.write(`Fatal error: ${err.message}\n`);
   process.exit(1);
 });
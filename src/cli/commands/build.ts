@@ -0,0 +1,66 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+import { parseDuration } from '../parsers';
+
+interface BuildFlags {
+  file: string;
+  cache?: boolean;
+  context?: string;
+  stepTimeout?: number;
+}
+
+async function buildImpl(this: CliContext, flags: BuildFlags): Promise<void> {
+  const { stdout, stderr } = this.process;
+  try {
+    const image = await incus.images.build(flags.file, {
+      cache: flags.cache,
+      context: flags.context,
+      stepTimeout: flags.stepTimeout,
+      onStep: (step) =>
+        stdout.write(`Step ${step.index}/${step.total}: ${step.description}${step.cached ? ' (cached)' : ''}\n`),
+      onStdout: (chunk) => stdout.write(chunk),
+      onStderr: (chunk) => stderr.write(chunk),
+    });
+    stdout.write(`Built ${image.aliases.join(', ')} (${image.fingerprint.slice(0, 12)})\n`);
+  } catch (err) {
+    stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const buildImageCommand = buildCommand({
+  loader: async () => buildImpl,
+  parameters: {
+    flags: {
+      file: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Recipe file (YAML or JSON)',
+      },
+      cache: {
+        kind: 'boolean',
+        brief: 'Reuse step snapshots from earlier builds (--no-cache to rebuild everything)',
+        optional: true,
+      },
+      context: {
+        kind: 'parsed',
+        parse: String,
+        brief: "Directory copy sources are relative to (default: the recipe's directory)",
+        optional: true,
+      },
+      stepTimeout: {
+        kind: 'parsed',
+        parse: parseDuration,
+        brief: 'Time limit for each run step (default: 10m)',
+        optional: true,
+      },
+    },
+    aliases: {
+      f: 'file',
+    },
+  },
+  docs: {
+    brief: 'Build and publish an image from a recipe',
+  },
+});
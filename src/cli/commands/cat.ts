@@ -10,7 +10,7 @@ async function catImpl(
 ): Promise<void> {
   try {
     const sandbox = await incus.sandbox.getByName(name);
-    const content = await sandbox.fs.readFile(path);
+    const content = await sandbox.fs.readFile(path, 'bytes');
     this.process.stdout.write(content);
   } catch (err) {
     this.process.stderr.write(`Error: ${(err as Error).message}\n`);
@@ -1,14 +1,20 @@
-import { buildCommand, numberParser } from '@stricli/core';
+import { buildCommand } from '@stricli/core';
 import type { CliContext } from '../context';
 import { incus } from '../../index';
 import type { SandboxType } from '../../types';
+import { labelsFromFlags, parseDuration } from '../parsers';
+import { limitFlags, limitsFromFlags } from '../limits';
+import type { LimitFlags } from '../limits';
+import { networkFlags, networkPolicyFromFlags } from '../network';
+import type { NetworkFlags } from '../network';
 
-interface CreateFlags {
+interface CreateFlags extends LimitFlags, NetworkFlags {
+  network?: 'none' | 'full';
   image?: string;
   type?: SandboxType;
-  cpu?: number;
-  memory?: string;
   mount?: string[];
+  ttl?: number;
+  label?: string[];
 }
 
 async function createImpl(
@@ -17,14 +23,18 @@ async function createImpl(
   name?: string
 ): Promise<void> {
   try {
+    const labels = labelsFromFlags(flags.label);
+
     const sandbox = await incus.sandbox.create({
       name,
       image: flags.image,
       type: flags.type,
-      limits: {
-        cpu: flags.cpu,
-        memory: flags.memory,
-      },
+      limits: limitsFromFlags(flags),
+      network: networkPolicyFromFlags(flags.network, flags),
+      ttl: flags.ttl,
+      labels,
+      // No process outlives this command to keep a heartbeat going.
+      persistent: true,
     });
 
     if (flags.mount) {
@@ -79,23 +89,32 @@ export const createCommand = buildCommand({
         brief: 'Sandbox type',
         optional: true,
       },
-      cpu: {
-        kind: 'parsed',
-        parse: numberParser,
-        brief: 'CPU core limit',
+      ...limitFlags,
+      network: {
+        kind: 'enum',
+        values: ['none', 'full'] as const,
+        brief: 'Network access: none (offline) or full',
         optional: true,
       },
-      memory: {
+      ...networkFlags,
+      mount: {
         kind: 'parsed',
         parse: String,
-        brief: 'Memory limit (e.g., 1GB)',
+        variadic: true,
+        brief: 'Mount host folder (source:target[:mode])',
         optional: true,
       },
-      mount: {
+      ttl: {
+        kind: 'parsed',
+        parse: parseDuration,
+        brief: 'Lifetime after which `isb gc` may destroy it (e.g., 2h)',
+        optional: true,
+      },
+      label: {
         kind: 'parsed',
         parse: String,
         variadic: true,
-        brief: 'Mount host folder (source:target[:mode])',
+        brief: 'Label to attach (key=value)',
         optional: true,
       },
     },
@@ -1,4 +1,5 @@
 import { buildCommand, numberParser } from '@stricli/core';
+import { Readable } from 'stream';
 import type { CliContext } from '../context';
 import { incus } from '../../index';
 
@@ -9,6 +10,24 @@ interface ExecFlags {
   timeout?: number;
 }
 
+/** Pulls from `input` only as fast as the sandbox reads, like `Readable.toWeb()` but typed as a global stream. */
+function toWebStream(input: Readable): ReadableStream<Uint8Array> {
+  const chunks: AsyncIterator<Buffer> = input[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return?.();
+    },
+  });
+}
+
 async function execImpl(
   this: CliContext,
   flags: ExecFlags,
@@ -34,14 +53,11 @@ async function execImpl(
       env: Object.keys(envRecord).length > 0 ? envRecord : undefined,
       user: flags.user,
       timeout: flags.timeout,
+      stdin: this.process.stdin.isTTY ? undefined : toWebStream(this.process.stdin),
+      onStdout: (chunk) => this.process.stdout.write(chunk),
+      onStderr: (chunk) => this.process.stderr.write(chunk),
     });
 
-    if (result.stdout) {
-      this.process.stdout.write(result.stdout);
-    }
-    if (result.stderr) {
-      this.process.stderr.write(result.stderr);
-    }
     this.process.exitCode = result.exitCode;
   } catch (err) {
     this.process.stderr.write(`Error: ${(err as Error).message}\n`);
@@ -0,0 +1,70 @@
+import { buildCommand, numberParser } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+import type { PortProtocol } from '../../types';
+
+interface ExposeFlags {
+  hostPort?: number;
+  protocol?: PortProtocol;
+  bind?: string;
+}
+
+async function exposeImpl(this: CliContext, flags: ExposeFlags, name: string, port: number): Promise<void> {
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    const mapping = await sandbox.exposePort(port, {
+      hostPort: flags.hostPort,
+      protocol: flags.protocol,
+      bind: flags.bind,
+    });
+    const host = mapping.host.includes(':') ? `[${mapping.host}]` : mapping.host;
+    this.process.stdout.write(`${host}:${mapping.hostPort}\n`);
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const exposeCommand = buildCommand({
+  loader: async () => exposeImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox name',
+          parse: String,
+        },
+        {
+          placeholder: 'port',
+          brief: 'Port inside the sandbox',
+          parse: numberParser,
+        },
+      ],
+    },
+    flags: {
+      hostPort: {
+        kind: 'parsed',
+        parse: numberParser,
+        brief: 'Host port (default: a free one)',
+        optional: true,
+      },
+      protocol: {
+        kind: 'enum',
+        values: ['tcp', 'udp'] as const,
+        brief: 'Protocol (default: tcp)',
+        optional: true,
+      },
+      bind: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Host address to listen on (default: 127.0.0.1)',
+        optional: true,
+      },
+    },
+  },
+  docs: {
+    brief: 'Forward a host port to a port in a sandbox',
+  },
+});
@@ -0,0 +1,81 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+import { labelsFromFlags, parseDuration } from '../parsers';
+
+interface ForkFlags {
+  snapshot?: string;
+  mounts?: boolean;
+  ttl?: number;
+  label?: string[];
+}
+
+async function forkImpl(this: CliContext, flags: ForkFlags, source: string, name?: string): Promise<void> {
+  try {
+    const forked = await incus.sandbox.createFrom(source, flags.snapshot, {
+      name,
+      mounts: flags.mounts,
+      ttl: flags.ttl,
+      labels: labelsFromFlags(flags.label),
+      persistent: true,
+    });
+    this.process.stdout.write(`${forked.name}\n`);
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const forkCommand = buildCommand({
+  loader: async () => forkImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'source',
+          brief: 'Sandbox to fork',
+          parse: String,
+        },
+        {
+          placeholder: 'name',
+          brief: 'Name of the new sandbox (auto-generated if omitted)',
+          parse: String,
+          optional: true,
+        },
+      ],
+    },
+    flags: {
+      snapshot: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Fork from this snapshot instead of the current state',
+        optional: true,
+      },
+      mounts: {
+        kind: 'boolean',
+        brief: 'Keep host mounts (--no-mounts to drop them)',
+        optional: true,
+      },
+      ttl: {
+        kind: 'parsed',
+        parse: parseDuration,
+        brief: 'Lifetime after which `isb gc` may destroy it (e.g., 2h)',
+        optional: true,
+      },
+      label: {
+        kind: 'parsed',
+        parse: String,
+        variadic: true,
+        brief: 'Label to add or override (key=value)',
+        optional: true,
+      },
+    },
+    aliases: {
+      s: 'snapshot',
+    },
+  },
+  docs: {
+    brief: 'Copy a sandbox, or one of its snapshots, into a new sandbox',
+  },
+});
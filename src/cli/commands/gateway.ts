@@ -0,0 +1,56 @@
+import { buildCommand, numberParser } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+
+interface GatewayFlags {
+  port?: number;
+  host?: string;
+  domain?: string;
+}
+
+async function gatewayImpl(this: CliContext, flags: GatewayFlags): Promise<void> {
+  try {
+    const gateway = await incus.createPreviewGateway({ port: flags.port, host: flags.host, domain: flags.domain });
+    this.process.stdout.write(
+      `Preview gateway listening on ${gateway.host}:${gateway.port}\n` +
+        `Open http://<port>-<sandbox>.${flags.domain ?? 'localhost'}:${gateway.port}/ to reach a port in a sandbox\n`
+    );
+    await new Promise<void>((resolve) => this.process.once('SIGINT', () => resolve()));
+    await gateway.close();
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const gatewayCommand = buildCommand({
+  loader: async () => gatewayImpl,
+  parameters: {
+    flags: {
+      port: {
+        kind: 'parsed',
+        parse: numberParser,
+        brief: 'Port to listen on (default: 8080)',
+        optional: true,
+      },
+      host: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Address to listen on (default: 127.0.0.1)',
+        optional: true,
+      },
+      domain: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Domain of preview hosts (default: localhost)',
+        optional: true,
+      },
+    },
+    aliases: {
+      p: 'port',
+    },
+  },
+  docs: {
+    brief: 'Serve sandbox ports at http://<port>-<sandbox>.localhost',
+  },
+});
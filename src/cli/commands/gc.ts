@@ -0,0 +1,81 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+import { parseDuration } from '../parsers';
+
+interface GcFlags {
+  dryRun?: boolean;
+  yes?: boolean;
+  prefix?: string;
+  abandonedAfter?: number;
+}
+
+async function gcImpl(this: CliContext, flags: GcFlags): Promise<void> {
+  try {
+    const result = await incus.sandbox.gc({
+      dryRun: flags.dryRun || !flags.yes,
+      prefix: flags.prefix,
+      abandonedAfter: flags.abandonedAfter,
+    });
+
+    if (result.removed.length === 0 && result.failed.length === 0) {
+      this.process.stdout.write('Nothing to collect\n');
+      return;
+    }
+
+    const verb = result.dryRun ? 'Would destroy' : 'Destroyed';
+    for (const candidate of result.removed) {
+      this.process.stdout.write(`${verb} ${candidate.name} (${candidate.reason})\n`);
+    }
+    if (result.dryRun && !flags.dryRun) {
+      this.process.stdout.write('Run with --yes to destroy them\n');
+    }
+    for (const failure of result.failed) {
+      this.process.stderr.write(`Failed to destroy ${failure.name}: ${failure.error}\n`);
+    }
+    if (result.failed.length > 0) {
+      this.process.exitCode = 1;
+    }
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const gcCommand = buildCommand({
+  loader: async () => gcImpl,
+  parameters: {
+    flags: {
+      dryRun: {
+        kind: 'boolean',
+        brief: 'Only list what would be destroyed (the default without --yes)',
+        optional: true,
+      },
+      yes: {
+        kind: 'boolean',
+        brief: 'Destroy what would be listed',
+        optional: true,
+      },
+      prefix: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Only consider sandboxes whose name starts with this prefix',
+        optional: true,
+      },
+      abandonedAfter: {
+        kind: 'parsed',
+        parse: parseDuration,
+        brief: 'Heartbeat age after which auto-named sandboxes count as abandoned (default 15m)',
+        optional: true,
+      },
+    },
+    aliases: {
+      y: 'yes',
+    },
+  },
+  docs: {
+    brief: 'Destroy expired and abandoned sandboxes',
+    fullDescription:
+      'Lists sandboxes past their TTL and auto-named sandboxes whose creating process stopped sending heartbeats, and destroys them with --yes. Sandboxes made by `isb create` and `isb fork` are never considered abandoned; give them a --ttl to have gc collect them.',
+  },
+});
@@ -0,0 +1,145 @@
+import { buildCommand, buildRouteMap } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+import { formatBytes } from '../format';
+
+async function lsImpl(this: CliContext, flags: {}): Promise<void> {
+  try {
+    const images = await incus.images.list();
+
+    if (images.length === 0) {
+      this.process.stdout.write('No images\n');
+      return;
+    }
+
+    this.process.stdout.write('ALIASES\tFINGERPRINT\tTYPE\tSIZE\tCREATED\tDESCRIPTION\n');
+    for (const image of images) {
+      const created = image.createdAt.toISOString().split('T')[0];
+      this.process.stdout.write(
+        `${image.aliases.join(',')}\t${image.fingerprint.slice(0, 12)}\t${image.type}\t${formatBytes(image.size)}\t${created}\t${image.description ?? ''}\n`
+      );
+    }
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+interface PublishFlags {
+  alias?: string;
+  description?: string;
+  snapshot?: string;
+  public?: boolean;
+}
+
+async function publishImpl(this: CliContext, flags: PublishFlags, name: string): Promise<void> {
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    const image = await sandbox.publish({
+      alias: flags.alias,
+      description: flags.description,
+      fromSnapshot: flags.snapshot,
+      public: flags.public,
+    });
+    this.process.stdout.write(`${image.aliases[0] ?? image.fingerprint}\n`);
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+async function rmImpl(this: CliContext, flags: {}, ...refs: string[]): Promise<void> {
+  for (const ref of refs) {
+    try {
+      await incus.images.delete(ref);
+      this.process.stdout.write(`Deleted image '${ref}'\n`);
+    } catch (err) {
+      this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+      this.process.exitCode = 1;
+    }
+  }
+}
+
+const lsCommand = buildCommand({
+  loader: async () => lsImpl,
+  parameters: {},
+  docs: {
+    brief: 'List local images',
+  },
+});
+
+const publishCommand = buildCommand({
+  loader: async () => publishImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox to publish',
+          parse: String,
+        },
+      ],
+    },
+    flags: {
+      alias: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Alias for the image (moved over if it exists)',
+        optional: true,
+      },
+      description: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Image description',
+        optional: true,
+      },
+      snapshot: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Publish this snapshot instead of the current state',
+        optional: true,
+      },
+      public: {
+        kind: 'boolean',
+        brief: 'Make the image available to other Incus servers',
+        optional: true,
+      },
+    },
+    aliases: {
+      s: 'snapshot',
+    },
+  },
+  docs: {
+    brief: 'Publish a sandbox as an image',
+  },
+});
+
+const rmCommand = buildCommand({
+  loader: async () => rmImpl,
+  parameters: {
+    positional: {
+      kind: 'array',
+      parameter: {
+        placeholder: 'image',
+        brief: 'Image alias or fingerprint',
+        parse: String,
+      },
+      minimum: 1,
+    },
+  },
+  docs: {
+    brief: 'Delete images',
+  },
+});
+
+export const imageRoutes = buildRouteMap({
+  routes: {
+    ls: lsCommand,
+    publish: publishCommand,
+    rm: rmCommand,
+  },
+  docs: {
+    brief: 'Manage images',
+  },
+});
@@ -1,15 +1,52 @@
 import { buildCommand } from '@stricli/core';
 import type { CliContext } from '../context';
 import { incus } from '../../index';
+import { formatNetworkPolicy } from '../network';
 
 async function infoImpl(this: CliContext, flags: {}, name: string): Promise<void> {
   try {
     const sandbox = await incus.sandbox.getByName(name);
-    const state = await sandbox.getState();
+    const info = await sandbox.info();
+    const out = (label: string, value: string | undefined) => {
+      if (value) this.process.stdout.write(`${label}: ${value}\n`);
+    };
 
-    this.process.stdout.write(`Name: ${sandbox.name}\n`);
-    this.process.stdout.write(`Type: ${sandbox.type}\n`);
-    this.process.stdout.write(`State: ${state}\n`);
+    out('Name', info.name);
+    out('Type', info.type);
+    out('State', info.state);
+    out('Created', info.createdAt.toISOString());
+    out('Image', info.image);
+    out('Fingerprint', info.imageFingerprint);
+    out('Architecture', info.architecture);
+    out('Profiles', info.profiles.join(', '));
+    out('IPv4', info.ipv4.join(', '));
+    out('IPv6', info.ipv6.join(', '));
+    out('CPU limit', info.limits.cpu?.toString());
+    out('Memory limit', info.limits.memory);
+    out('Disk limit', info.limits.disk);
+    out('Network', formatNetworkPolicy(info.network));
+    out('Snapshots', String(info.snapshotCount));
+    out('Expires', info.expiresAt?.toISOString());
+    out(
+      'Labels',
+      Object.entries(info.labels)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(', ')
+    );
+
+    if (info.mounts.length > 0) {
+      this.process.stdout.write('Mounts:\n');
+      for (const mount of info.mounts) {
+        this.process.stdout.write(`  ${mount.source} -> ${mount.target || '?'} (${mount.mode})\n`);
+      }
+    }
+
+    if (info.ports.length > 0) {
+      this.process.stdout.write('Ports:\n');
+      for (const port of info.ports) {
+        this.process.stdout.write(`  ${port.host}:${port.hostPort} -> ${port.containerPort}/${port.protocol}\n`);
+      }
+    }
   } catch (err) {
     this.process.stderr.write(`Error: ${(err as Error).message}\n`);
     this.process.exitCode = 1;
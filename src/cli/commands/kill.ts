@@ -0,0 +1,57 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+
+interface KillFlags {
+  signal?: string;
+}
+
+async function killImpl(
+  this: CliContext,
+  flags: KillFlags,
+  name: string,
+  id: string
+): Promise<void> {
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    const proc = await sandbox.getProcess(id);
+    const signal = flags.signal ?? 'SIGTERM';
+    await proc.kill(/^\d+$/.test(signal) ? Number(signal) : (signal.toUpperCase() as NodeJS.Signals));
+    this.process.stdout.write(`Sent ${signal} to ${id}\n`);
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const killCommand = buildCommand({
+  loader: async () => killImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox name',
+          parse: String,
+        },
+        {
+          placeholder: 'id',
+          brief: 'Process ID (from isb ps)',
+          parse: String,
+        },
+      ],
+    },
+    flags: {
+      signal: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Signal to send (default: SIGTERM)',
+        optional: true,
+      },
+    },
+  },
+  docs: {
+    brief: 'Signal a background process in a sandbox',
+  },
+});
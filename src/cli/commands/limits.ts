@@ -0,0 +1,68 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+import type { SandboxLimits } from '../../types';
+import { limitFlags, limitsFromFlags } from '../limits';
+import type { LimitFlags } from '../limits';
+
+interface LimitsFlags extends LimitFlags {
+  restart?: boolean;
+}
+
+function formatLimits(limits: SandboxLimits): string {
+  const entries = Object.entries(limits).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) {
+    return 'No limits set\n';
+  }
+  return entries.map(([key, value]) => `${key}: ${value}\n`).join('');
+}
+
+async function limitsImpl(this: CliContext, flags: LimitsFlags, name: string): Promise<void> {
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    const requested = limitsFromFlags(flags);
+
+    if (Object.values(requested).every((value) => value === undefined)) {
+      this.process.stdout.write(formatLimits(await sandbox.getLimits()));
+      return;
+    }
+
+    const update = await sandbox.setLimits(requested, { restart: flags.restart });
+    this.process.stdout.write(formatLimits(update.limits));
+    if (update.restartRequired.length > 0) {
+      this.process.stderr.write(
+        `Restart required for: ${update.restartRequired.join(', ')} (run \`isb restart ${name}\` or pass --restart)\n`
+      );
+    }
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const limitsCommand = buildCommand({
+  loader: async () => limitsImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox name',
+          parse: String,
+        },
+      ],
+    },
+    flags: {
+      ...limitFlags,
+      restart: {
+        kind: 'boolean',
+        brief: 'Restart if a change only takes effect after a restart',
+        optional: true,
+      },
+    },
+  },
+  docs: {
+    brief: 'Show or change sandbox resource limits',
+  },
+});
@@ -1,16 +1,20 @@
 import { buildCommand } from '@stricli/core';
 import type { CliContext } from '../context';
 import { incus } from '../../index';
-import type { SandboxType } from '../../types';
+import type { SandboxState, SandboxType } from '../../types';
 
 interface ListFlags {
   type?: SandboxType | 'all';
+  state?: SandboxState;
+  label?: string[];
 }
 
 async function listImpl(this: CliContext, flags: ListFlags): Promise<void> {
   try {
     const sandboxes = await incus.sandbox.list({
       type: flags.type === 'all' ? undefined : flags.type,
+      state: flags.state,
+      labels: flags.label?.join(','),
     });
 
     if (sandboxes.length === 0) {
@@ -18,12 +22,15 @@ async function listImpl(this: CliContext, flags: ListFlags): Promise<void> {
       return;
     }
 
-    const header = 'NAME\tTYPE\tSTATE\tCREATED';
+    const header = 'NAME\tTYPE\tSTATE\tIPV4\tCREATED\tLABELS';
     this.process.stdout.write(header + '\n');
 
     for (const sb of sandboxes) {
       const created = sb.createdAt.toISOString().split('T')[0];
-      this.process.stdout.write(`${sb.name}\t${sb.type}\t${sb.state}\t${created}\n`);
+      const labels = Object.entries(sb.labels)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(',');
+      this.process.stdout.write(`${sb.name}\t${sb.type}\t${sb.state}\t${sb.ipv4.join(',')}\t${created}\t${labels}\n`);
     }
   } catch (err) {
     this.process.stderr.write(`Error: ${(err as Error).message}\n`);
@@ -41,6 +48,22 @@ export const listCommand = buildCommand({
         brief: 'Filter by type',
         optional: true,
       },
+      state: {
+        kind: 'enum',
+        values: ['running', 'stopped', 'frozen', 'error'] as const,
+        brief: 'Filter by state',
+        optional: true,
+      },
+      label: {
+        kind: 'parsed',
+        parse: String,
+        variadic: true,
+        brief: 'Label selector (e.g., team=ml, "job in (1,2)", !temp)',
+        optional: true,
+      },
+    },
+    aliases: {
+      l: 'label',
     },
   },
   docs: {
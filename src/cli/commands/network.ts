@@ -0,0 +1,60 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+import { formatNetworkPolicy, networkFlags, networkPolicyFromFlags } from '../network';
+import type { NetworkFlags } from '../network';
+
+async function networkImpl(
+  this: CliContext,
+  flags: NetworkFlags,
+  name: string,
+  mode?: 'none' | 'full'
+): Promise<void> {
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    const policy = networkPolicyFromFlags(mode, flags);
+
+    if (policy === undefined) {
+      const info = await sandbox.info();
+      this.process.stdout.write(`${formatNetworkPolicy(info.network)}\n`);
+      return;
+    }
+
+    await sandbox.setNetworkPolicy(policy);
+    this.process.stdout.write(`${formatNetworkPolicy(policy)}\n`);
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const networkCommand = buildCommand({
+  loader: async () => networkImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox name',
+          parse: String,
+        },
+        {
+          placeholder: 'mode',
+          brief: 'none (offline) or full; omit with --allow-egress, or to show the policy',
+          parse: (value: string) => {
+            if (value !== 'none' && value !== 'full') {
+              throw new SyntaxError(`Invalid network mode '${value}' (expected none or full)`);
+            }
+            return value;
+          },
+          optional: true,
+        },
+      ],
+    },
+    flags: networkFlags,
+  },
+  docs: {
+    brief: 'Show or change a sandbox network policy',
+  },
+});
@@ -0,0 +1,45 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+
+async function portsImpl(this: CliContext, flags: {}, name: string): Promise<void> {
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    const ports = await sandbox.listPorts();
+
+    if (ports.length === 0) {
+      this.process.stdout.write('No exposed ports\n');
+      return;
+    }
+
+    const header = 'PORT\tPROTOCOL\tHOST';
+    this.process.stdout.write(header + '\n');
+
+    for (const p of ports) {
+      const host = p.host.includes(':') ? `[${p.host}]` : p.host;
+      this.process.stdout.write(`${p.containerPort}\t${p.protocol}\t${host}:${p.hostPort}\n`);
+    }
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const portsCommand = buildCommand({
+  loader: async () => portsImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox name',
+          parse: String,
+        },
+      ],
+    },
+  },
+  docs: {
+    brief: 'List forwarded ports of a sandbox',
+  },
+});
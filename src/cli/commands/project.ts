@@ -0,0 +1,125 @@
+import { buildCommand, buildRouteMap } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+import { keyValuesFromFlags } from '../parsers';
+
+async function lsImpl(this: CliContext, flags: {}): Promise<void> {
+  try {
+    const projects = await incus.projects.list();
+    const current = incus.getConfig().project;
+
+    this.process.stdout.write('NAME\tINSTANCES\tDESCRIPTION\n');
+    for (const project of projects) {
+      const instances = project.usedBy.filter((path) => path.startsWith('/1.0/instances/')).length;
+      const name = project.name === current ? `${project.name} (current)` : project.name;
+      this.process.stdout.write(`${name}\t${instances}\t${project.description}\n`);
+    }
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+interface CreateFlags {
+  description?: string;
+  config?: string[];
+}
+
+async function createImpl(this: CliContext, flags: CreateFlags, name: string): Promise<void> {
+  try {
+    await incus.projects.create(name, {
+      description: flags.description,
+      config: keyValuesFromFlags(flags.config, 'config'),
+    });
+    this.process.stdout.write(`Created project '${name}'\n`);
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+async function rmImpl(this: CliContext, flags: {}, ...names: string[]): Promise<void> {
+  for (const name of names) {
+    try {
+      await incus.projects.delete(name);
+      this.process.stdout.write(`Deleted project '${name}'\n`);
+    } catch (err) {
+      this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+      this.process.exitCode = 1;
+    }
+  }
+}
+
+const lsCommand = buildCommand({
+  loader: async () => lsImpl,
+  parameters: {},
+  docs: {
+    brief: 'List projects',
+  },
+});
+
+const createCommand = buildCommand({
+  loader: async () => createImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Project name',
+          parse: String,
+        },
+      ],
+    },
+    flags: {
+      description: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Project description',
+        optional: true,
+      },
+      config: {
+        kind: 'parsed',
+        parse: String,
+        variadic: true,
+        brief: 'Project config (key=value, e.g. limits.instances=10)',
+        optional: true,
+      },
+    },
+    aliases: {
+      c: 'config',
+    },
+  },
+  docs: {
+    brief: 'Create a project',
+  },
+});
+
+const rmCommand = buildCommand({
+  loader: async () => rmImpl,
+  parameters: {
+    positional: {
+      kind: 'array',
+      parameter: {
+        placeholder: 'name',
+        brief: 'Project name',
+        parse: String,
+      },
+      minimum: 1,
+    },
+  },
+  docs: {
+    brief: 'Delete empty projects',
+  },
+});
+
+export const projectRoutes = buildRouteMap({
+  routes: {
+    ls: lsCommand,
+    create: createCommand,
+    rm: rmCommand,
+  },
+  docs: {
+    brief: 'Manage projects',
+  },
+});
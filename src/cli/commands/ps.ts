@@ -0,0 +1,46 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+
+async function psImpl(this: CliContext, flags: {}, name: string): Promise<void> {
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    const processes = await sandbox.processes();
+
+    if (processes.length === 0) {
+      this.process.stdout.write('No processes\n');
+      return;
+    }
+
+    const header = 'ID\tPID\tSTATUS\tSTARTED\tCOMMAND';
+    this.process.stdout.write(header + '\n');
+
+    for (const p of processes) {
+      const status = p.running ? 'running' : p.exitCode === null ? 'killed' : `exited (${p.exitCode})`;
+      const started = p.startedAt.toISOString().replace('T', ' ').split('.')[0];
+      this.process.stdout.write(`${p.id}\t${p.pid}\t${status}\t${started}\t${p.command}\n`);
+    }
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const psCommand = buildCommand({
+  loader: async () => psImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox name',
+          parse: String,
+        },
+      ],
+    },
+  },
+  docs: {
+    brief: 'List background processes started in a sandbox',
+  },
+});
@@ -2,16 +2,26 @@ import { buildCommand } from '@stricli/core';
 import type { CliContext } from '../context';
 import { incus } from '../../index';
 
+interface TransferFlags {
+  ignore?: string[];
+  followSymlinks?: boolean;
+}
+
 async function pullImpl(
   this: CliContext,
-  flags: {},
+  flags: TransferFlags,
   name: string,
   remote: string,
   local: string
 ): Promise<void> {
   try {
     const sandbox = await incus.sandbox.getByName(name);
-    await sandbox.fs.pull(remote, local);
+    const options = { ignore: flags.ignore, followSymlinks: flags.followSymlinks };
+    if ((await sandbox.fs.stat(remote)).type === 'directory') {
+      await sandbox.fs.downloadDir(remote, local, options);
+    } else {
+      await sandbox.fs.pull(remote, local);
+    }
     this.process.stdout.write(`Pulled ${remote} -> ${local}\n`);
   } catch (err) {
     this.process.stderr.write(`Error: ${(err as Error).message}\n`);
@@ -32,7 +42,7 @@ export const pullCommand = buildCommand({
         },
         {
           placeholder: 'remote',
-          brief: 'Remote file path in sandbox',
+          brief: 'Remote file or directory path in sandbox',
           parse: String,
         },
         {
@@ -42,8 +52,22 @@ export const pullCommand = buildCommand({
         },
       ],
     },
+    flags: {
+      ignore: {
+        kind: 'parsed',
+        parse: String,
+        variadic: true,
+        brief: 'Skip paths matching a .gitignore-style pattern (directories only)',
+        optional: true,
+      },
+      followSymlinks: {
+        kind: 'boolean',
+        brief: 'Copy symlink targets instead of the links (directories only)',
+        optional: true,
+      },
+    },
   },
   docs: {
-    brief: 'Copy a file from a sandbox',
+    brief: 'Copy a file or directory from a sandbox',
   },
 });
@@ -1,17 +1,28 @@
 import { buildCommand } from '@stricli/core';
+import { stat } from 'fs/promises';
 import type { CliContext } from '../context';
 import { incus } from '../../index';
 
+interface TransferFlags {
+  ignore?: string[];
+  followSymlinks?: boolean;
+}
+
 async function pushImpl(
   this: CliContext,
-  flags: {},
+  flags: TransferFlags,
   name: string,
   local: string,
   remote: string
 ): Promise<void> {
   try {
     const sandbox = await incus.sandbox.getByName(name);
-    await sandbox.fs.push(local, remote);
+    const options = { ignore: flags.ignore, followSymlinks: flags.followSymlinks };
+    if ((await stat(local)).isDirectory()) {
+      await sandbox.fs.uploadDir(local, remote, options);
+    } else {
+      await sandbox.fs.push(local, remote);
+    }
     this.process.stdout.write(`Pushed ${local} -> ${remote}\n`);
   } catch (err) {
     this.process.stderr.write(`Error: ${(err as Error).message}\n`);
@@ -32,7 +43,7 @@ export const pushCommand = buildCommand({
         },
         {
           placeholder: 'local',
-          brief: 'Local file path',
+          brief: 'Local file or directory path',
           parse: String,
         },
         {
@@ -42,8 +53,22 @@ export const pushCommand = buildCommand({
         },
       ],
     },
+    flags: {
+      ignore: {
+        kind: 'parsed',
+        parse: String,
+        variadic: true,
+        brief: 'Skip paths matching a .gitignore-style pattern (directories only)',
+        optional: true,
+      },
+      followSymlinks: {
+        kind: 'boolean',
+        brief: 'Copy symlink targets instead of the links (directories only)',
+        optional: true,
+      },
+    },
   },
   docs: {
-    brief: 'Copy a file to a sandbox',
+    brief: 'Copy a file or directory to a sandbox',
   },
 });
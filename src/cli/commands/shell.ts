@@ -0,0 +1,77 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+
+interface ShellFlags {
+  user?: string;
+  cwd?: string;
+}
+
+async function shellImpl(this: CliContext, flags: ShellFlags, name: string): Promise<void> {
+  const { stdin, stdout } = this.process;
+  const raw = stdin.isTTY === true;
+
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    const terminal = await sandbox.openTerminal({
+      cols: stdout.columns,
+      rows: stdout.rows,
+      user: flags.user,
+      cwd: flags.cwd,
+    });
+
+    const onInput = (chunk: Buffer) => terminal.write(chunk);
+    const onResize = () => terminal.resize(stdout.columns, stdout.rows);
+
+    terminal.onData((data) => stdout.write(data));
+    if (raw) stdin.setRawMode(true);
+    stdin.on('data', onInput);
+    stdin.resume();
+    stdout.on('resize', onResize);
+
+    try {
+      this.process.exitCode = await terminal.wait();
+    } finally {
+      stdout.off('resize', onResize);
+      stdin.off('data', onInput);
+      if (raw) stdin.setRawMode(false);
+      stdin.pause();
+    }
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const shellCommand = buildCommand({
+  loader: async () => shellImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox name',
+          parse: String,
+        },
+      ],
+    },
+    flags: {
+      user: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'User to log in as',
+        optional: true,
+      },
+      cwd: {
+        kind: 'parsed',
+        parse: String,
+        brief: 'Working directory',
+        optional: true,
+      },
+    },
+  },
+  docs: {
+    brief: 'Open an interactive shell in a sandbox',
+  },
+});
@@ -0,0 +1,116 @@
+import { buildCommand, numberParser } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus, Sandbox } from '../../index';
+import type { SandboxMetrics } from '../../types';
+import { parseDuration } from '../parsers';
+import { formatBytes } from '../format';
+
+interface TopFlags {
+  interval?: number;
+  iterations?: number;
+  label?: string[];
+}
+
+/** CPU usage between two samples, where 100% is one fully busy core. */
+function cpuPercent(previous: SandboxMetrics | undefined, current: SandboxMetrics): number | null {
+  if (!previous) return null;
+  const elapsed = current.timestamp.getTime() - previous.timestamp.getTime();
+  if (elapsed <= 0) return null;
+  return Math.max(0, ((current.cpuTime - previous.cpuTime) / elapsed) * 100);
+}
+
+async function topImpl(this: CliContext, flags: TopFlags): Promise<void> {
+  const { stdout } = this.process;
+  const interval = flags.interval ?? 2000;
+  const previous = new Map<string, SandboxMetrics>();
+  let stopped = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopped = true;
+    wake?.();
+  };
+  this.process.once('SIGINT', stop);
+
+  try {
+    for (let i = 0; !stopped && (flags.iterations === undefined || i < flags.iterations); i++) {
+      if (i > 0) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+          setTimeout(resolve, interval);
+        });
+        wake = null;
+        if (stopped) break;
+      }
+
+      const sandboxes = await incus.sandbox.list({ state: 'running', labels: flags.label?.join(',') });
+      const samples = await Promise.all(
+        sandboxes.map(async (info) => {
+          // A sandbox may vanish between listing and sampling.
+          const metrics = await new Sandbox(info.name, info.type).metrics().catch(() => null);
+          return metrics ? { name: info.name, metrics, cpu: cpuPercent(previous.get(info.name), metrics) } : null;
+        })
+      );
+      const rows = samples.filter((row) => row !== null);
+      rows.sort((a, b) => (b.cpu ?? 0) - (a.cpu ?? 0) || a.name.localeCompare(b.name));
+
+      previous.clear();
+      for (const row of rows) previous.set(row.name, row.metrics);
+
+      if (stdout.isTTY) stdout.write('\x1b[H\x1b[2J');
+      stdout.write('NAME\tCPU%\tMEM\tPEAK\tDISK\tRX\tTX\tPROCS\n');
+      for (const { name, metrics, cpu } of rows) {
+        stdout.write(
+          [
+            name,
+            cpu === null ? '-' : cpu.toFixed(1),
+            formatBytes(metrics.memoryUsage),
+            formatBytes(metrics.memoryPeak),
+            formatBytes(metrics.diskUsage),
+            formatBytes(metrics.networkRx),
+            formatBytes(metrics.networkTx),
+            metrics.processes,
+          ].join('\t') + '\n'
+        );
+      }
+    }
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  } finally {
+    this.process.off('SIGINT', stop);
+  }
+}
+
+export const topCommand = buildCommand({
+  loader: async () => topImpl,
+  parameters: {
+    flags: {
+      interval: {
+        kind: 'parsed',
+        parse: parseDuration,
+        brief: 'Time between refreshes (default: 2s)',
+        optional: true,
+      },
+      iterations: {
+        kind: 'parsed',
+        parse: numberParser,
+        brief: 'Exit after this many refreshes',
+        optional: true,
+      },
+      label: {
+        kind: 'parsed',
+        parse: String,
+        variadic: true,
+        brief: 'Only show sandboxes matching a label selector',
+        optional: true,
+      },
+    },
+    aliases: {
+      n: 'iterations',
+      l: 'label',
+    },
+  },
+  docs: {
+    brief: 'Show live resource usage of running sandboxes',
+  },
+});
@@ -0,0 +1,51 @@
+import { buildCommand, numberParser } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+import type { PortProtocol } from '../../types';
+
+interface UnexposeFlags {
+  protocol?: PortProtocol;
+}
+
+async function unexposeImpl(this: CliContext, flags: UnexposeFlags, name: string, port: number): Promise<void> {
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    await sandbox.unexposePort(port, flags.protocol);
+    this.process.stdout.write(`Stopped forwarding ${flags.protocol ?? 'tcp'}/${port}\n`);
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const unexposeCommand = buildCommand({
+  loader: async () => unexposeImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox name',
+          parse: String,
+        },
+        {
+          placeholder: 'port',
+          brief: 'Port inside the sandbox',
+          parse: numberParser,
+        },
+      ],
+    },
+    flags: {
+      protocol: {
+        kind: 'enum',
+        values: ['tcp', 'udp'] as const,
+        brief: 'Protocol (default: tcp)',
+        optional: true,
+      },
+    },
+  },
+  docs: {
+    brief: 'Stop forwarding a sandbox port',
+  },
+});
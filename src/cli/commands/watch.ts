@@ -0,0 +1,58 @@
+import { buildCommand } from '@stricli/core';
+import type { CliContext } from '../context';
+import { incus } from '../../index';
+
+interface WatchFlags {
+  recursive?: boolean;
+}
+
+async function watchImpl(this: CliContext, flags: WatchFlags, name: string, path: string): Promise<void> {
+  try {
+    const sandbox = await incus.sandbox.getByName(name);
+    const watcher = sandbox.fs.watch(path, { recursive: flags.recursive ?? true });
+    const stop = () => watcher.close();
+    this.process.once('SIGINT', stop);
+
+    try {
+      for await (const event of watcher) {
+        this.process.stdout.write(`${event.type.toUpperCase()}\t${event.path}\n`);
+      }
+    } finally {
+      this.process.off('SIGINT', stop);
+    }
+  } catch (err) {
+    this.process.stderr.write(`Error: ${(err as Error).message}\n`);
+    this.process.exitCode = 1;
+  }
+}
+
+export const watchCommand = buildCommand({
+  loader: async () => watchImpl,
+  parameters: {
+    positional: {
+      kind: 'tuple',
+      parameters: [
+        {
+          placeholder: 'name',
+          brief: 'Sandbox name',
+          parse: String,
+        },
+        {
+          placeholder: 'path',
+          brief: 'File or directory to watch',
+          parse: String,
+        },
+      ],
+    },
+    flags: {
+      recursive: {
+        kind: 'boolean',
+        brief: 'Watch subdirectories too (default: true, use --no-recursive to disable)',
+        optional: true,
+      },
+    },
+  },
+  docs: {
+    brief: 'Stream file changes inside a sandbox',
+  },
+});
@@ -0,0 +1,23 @@
+import type { IncusConfig } from '../types';
+
+/**
+ * Takes `--remote <name>` and `--project <name>` (or `--flag=value`) off the
+ * front of the arguments, before the command. Stricli only knows flags that
+ * belong to a command, so these are handled before it sees the rest.
+ */
+export function extractGlobalFlags(args: string[]): { config: Pick<IncusConfig, 'remote' | 'project'>; args: string[] } {
+  const config: Pick<IncusConfig, 'remote' | 'project'> = {};
+  let i = 0;
+  while (i < args.length) {
+    const match = args[i]!.match(/^--(remote|project)(?:=(.*))?$/);
+    if (!match) break;
+    const flag = match[1] as 'remote' | 'project';
+    const value = match[2] ?? args[i + 1];
+    if (!value || (match[2] === undefined && value.startsWith('-'))) {
+      throw new Error(`--${flag} needs a value`);
+    }
+    config[flag] = value;
+    i += match[2] === undefined ? 2 : 1;
+  }
+  return { config, args: args.slice(i) };
+}
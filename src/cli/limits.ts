@@ -0,0 +1,93 @@
+import { numberParser } from '@stricli/core';
+import type { SandboxLimits } from '../types';
+
+/** Resource limit flags shared by `isb create` and `isb limits`. */
+export interface LimitFlags {
+  cpu?: number;
+  cpuAllowance?: string;
+  memory?: string;
+  memorySwap?: boolean;
+  processes?: number;
+  disk?: string;
+  diskIops?: number;
+  diskBandwidth?: string;
+  networkIngress?: string;
+  networkEgress?: string;
+}
+
+export function limitsFromFlags(flags: LimitFlags): SandboxLimits {
+  return {
+    cpu: flags.cpu,
+    cpuAllowance: flags.cpuAllowance,
+    memory: flags.memory,
+    memorySwap: flags.memorySwap,
+    processes: flags.processes,
+    disk: flags.disk,
+    diskIops: flags.diskIops,
+    diskBandwidth: flags.diskBandwidth,
+    networkIngress: flags.networkIngress,
+    networkEgress: flags.networkEgress,
+  };
+}
+
+export const limitFlags = {
+  cpu: {
+    kind: 'parsed',
+    parse: numberParser,
+    brief: 'CPU core limit',
+    optional: true,
+  },
+  memory: {
+    kind: 'parsed',
+    parse: String,
+    brief: 'Memory limit (e.g., 1GB)',
+    optional: true,
+  },
+  cpuAllowance: {
+    kind: 'parsed',
+    parse: String,
+    brief: 'CPU time share (e.g., 50% or 25ms/100ms)',
+    optional: true,
+  },
+  memorySwap: {
+    kind: 'boolean',
+    brief: 'Allow swapping (--no-memory-swap to forbid it)',
+    optional: true,
+  },
+  processes: {
+    kind: 'parsed',
+    parse: numberParser,
+    brief: 'Maximum number of processes',
+    optional: true,
+  },
+  disk: {
+    kind: 'parsed',
+    parse: String,
+    brief: 'Root disk size (e.g., 10GB)',
+    optional: true,
+  },
+  diskIops: {
+    kind: 'parsed',
+    parse: numberParser,
+    brief: 'Root disk I/O operations per second',
+    optional: true,
+  },
+  diskBandwidth: {
+    kind: 'parsed',
+    parse: String,
+    brief: 'Root disk throughput per second (e.g., 50MB)',
+    optional: true,
+  },
+  networkIngress: {
+    kind: 'parsed',
+    parse: String,
+    brief: 'Inbound network rate (e.g., 100Mbit)',
+    optional: true,
+  },
+  networkEgress: {
+    kind: 'parsed',
+    parse: String,
+    brief: 'Outbound network rate (e.g., 100Mbit)',
+    optional: true,
+  },
+} as const;
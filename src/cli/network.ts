@@ -0,0 +1,44 @@
+import type { NetworkPolicy } from '../types';
+
+/** Network policy flags shared by `isb create` and `isb network`. */
+export interface NetworkFlags {
+  allowEgress?: string[];
+  denyEgress?: string[];
+}
+
+export function networkPolicyFromFlags(mode: 'none' | 'full' | undefined, flags: NetworkFlags): NetworkPolicy | undefined {
+  if (flags.allowEgress) {
+    if (mode) {
+      throw new Error(`--allow-egress cannot be combined with network mode '${mode}'`);
+    }
+    return { allowEgress: flags.allowEgress, denyEgress: flags.denyEgress };
+  }
+  if (flags.denyEgress) {
+    throw new Error('--deny-egress needs --allow-egress (use --allow-egress 0.0.0.0/0 to deny only some destinations)');
+  }
+  return mode;
+}
+
+export function formatNetworkPolicy(policy: NetworkPolicy | undefined): string {
+  if (policy === undefined) return 'full (profile default)';
+  if (typeof policy === 'string') return policy;
+  const deny = policy.denyEgress?.length ? `; deny ${policy.denyEgress.join(', ')}` : '';
+  return `allow ${policy.allowEgress.join(', ') || 'nothing'}${deny}`;
+}
+
+export const networkFlags = {
+  allowEgress: {
+    kind: 'parsed',
+    parse: String,
+    variadic: true,
+    brief: 'Only allow egress to this CIDR or hostname',
+    optional: true,
+  },
+  denyEgress: {
+    kind: 'parsed',
+    parse: String,
+    variadic: true,
+    brief: 'Reject egress to this CIDR or hostname',
+    optional: true,
+  },
+} as const;
@@ -0,0 +1,34 @@
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/** Parses durations like `90s`, `30m`, `2h` or `1d` into milliseconds. */
+export function parseDuration(input: string): number {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m|h|d)$/);
+  if (!match) {
+    throw new SyntaxError(`Invalid duration '${input}' (expected e.g. 90s, 30m, 2h, 1d)`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]!]!;
+}
+
+/** Turns repeated `--<kind> key=value` flags into a map. */
+export function keyValuesFromFlags(values: string[] | undefined, kind: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const value of values ?? []) {
+    const idx = value.indexOf('=');
+    if (idx <= 0) {
+      throw new Error(`Invalid ${kind} format: ${value}. Use key=value`);
+    }
+    result[value.slice(0, idx)] = value.slice(idx + 1);
+  }
+  return result;
+}
+
+/** Turns repeated `--label key=value` flags into a label map. */
+export function labelsFromFlags(labels: string[] | undefined): Record<string, string> {
+  return keyValuesFromFlags(labels, 'label');
+}
@@ -1,385 +1,1147 @@
-import { spawn } from 'child_process';
-import type { IncusConfig, SandboxInfo, SandboxState, SandboxType } from './types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { StringDecoder } from 'string_decoder';
+import type {
+  CommandInput,
+  CreateProjectOptions,
+  FileWatchEvent,
+  FileWatchEventType,
+  ImageInfo,
+  IncusConfig,
+  ProjectInfo,
+  SandboxInfo,
+  SandboxLimits,
+  SandboxMetrics,
+  SandboxState,
+  SandboxType,
+  TerminalOptions,
+  TerminalSession,
+  WatchOptions,
+} from './types';
 import { DEFAULT_CONFIG } from './types';
-import { IncusConnectionError, CommandError } from './errors';
+import { CommandError, ImageNotFoundError } from './errors';
+import { prepareFork, readMetadata, readMounts } from './metadata';
+import { limitDevices, limitsConfig, readLimits } from './limits';
+import { applyPolicyToInstance, networkAclName } from './network';
+import { readPorts } from './ports';
+import type { AclRule, ResolvedNetworkPolicy } from './network';
+import { apiRaw, apiRequest, waitForOperation } from './api';
+import type { ApiResponse, Endpoint, Operation, RawResponse, RequestOptions } from './api';
+import { parseIgnorePattern } from './ignore';
+import { resolveImageServer, resolveRemote } from './remotes';
+import { connectWebSocket } from './websocket';
+import type { WebSocketConnection } from './websocket';
+import type { DeviceConfig, ExecOptions, ExecResult, IncusBackend, InstanceSummary, WatchHandle } from './backend';
 
-let config: Required<IncusConfig> = { ...DEFAULT_CONFIG };
+export type { ExecResult };
 
-export function setConfig(newConfig: IncusConfig): void {
-  config = { ...DEFAULT_CONFIG, ...newConfig };
+interface InstanceRecord {
+  name: string;
+  type: string;
+  status: string;
+  created_at: string;
+  architecture: string;
+  description: string;
+  ephemeral: boolean;
+  stateful: boolean;
+  profiles: string[];
+  config: Record<string, string>;
+  devices: Record<string, DeviceConfig>;
+  expanded_config?: Record<string, string>;
+  expanded_devices?: Record<string, DeviceConfig>;
+  // Only present with recursion (?recursion=1 on one instance, 2 on the list).
+  state?: {
+    network?: Record<string, { addresses?: Array<{ family: string; address: string; scope: string }> }> | null;
+  } | null;
+  snapshots?: unknown[] | null;
 }
 
-export function getConfig(): Required<IncusConfig> {
-  return config;
+function instancePath(name: string): string {
+  return `/1.0/instances/${encodeURIComponent(name)}`;
 }
 
-export interface ExecResult {
-  stdout: string;
-  stderr: string;
-  exitCode: number;
+function mapStatus(status: string): SandboxState {
+  const s = status.toLowerCase();
+  if (s === 'running') return 'running';
+  if (s === 'stopped') return 'stopped';
+  if (s === 'frozen') return 'frozen';
+  return 'error';
 }
 
-export async function execIncus(args: string[], options?: { timeout?: number; stdin?: string }): Promise<ExecResult> {
-  const timeout = options?.timeout ?? 60000;
+function mapType(type: string): SandboxType {
+  return type === 'virtual-machine' ? 'vm' : 'container';
+}
 
-  return new Promise((resolve, reject) => {
-    const proc = spawn('incus', args, {
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env, LANG: 'C' },
-    });
+const FINGERPRINT = /^[0-9a-f]{12,64}$/;
 
-    let stdout = '';
-    let stderr = '';
-    let timeoutId: Timer | undefined;
+// Incus words this differently for local aliases and remote servers.
+const IMAGE_MISSING = /image.*not found|requested image couldn't be found/i;
 
-    if (timeout > 0) {
-      timeoutId = setTimeout(() => {
-        proc.kill('SIGTERM');
-        reject(new IncusConnectionError(`Command timed out after ${timeout}ms`));
-      }, timeout);
-    }
+function imageError(err: unknown, image: string): unknown {
+  return err instanceof CommandError && IMAGE_MISSING.test(err.message) ? new ImageNotFoundError(image) : err;
+}
 
-    proc.stdout.on('data', (data) => {
-      stdout += data.toString();
-    });
+/** `own` is the remote the backend talks to, whose images are local to it. */
+function imageSource(image: string, own: string): Record<string, string> {
+  const idx = image.indexOf(':');
+  const remote = idx > 0 ? image.slice(0, idx) : 'local';
+  const ref = idx > 0 ? image.slice(idx + 1) : image;
+  const key = FINGERPRINT.test(ref) ? 'fingerprint' : 'alias';
 
-    proc.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
+  if (remote === 'local' || remote === own) {
+    return { type: 'image', [key]: ref };
+  }
 
-    if (options?.stdin) {
-      proc.stdin.write(options.stdin);
-      proc.stdin.end();
-    } else {
-      proc.stdin.end();
-    }
+  return { type: 'image', mode: 'pull', ...resolveImageServer(remote), [key]: ref };
+}
 
-    proc.on('error', (err) => {
-      if (timeoutId) clearTimeout(timeoutId);
-      reject(new IncusConnectionError(`Failed to execute incus command: ${err.message}`, err));
-    });
+function addresses(record: InstanceRecord, family: 'inet' | 'inet6'): string[] {
+  return Object.entries(record.state?.network ?? {})
+    .filter(([iface]) => iface !== 'lo')
+    .flatMap(([, net]) => net.addresses ?? [])
+    .filter((a) => a.family === family && a.scope === 'global')
+    .map((a) => a.address);
+}
 
-    proc.on('close', (code) => {
-      if (timeoutId) clearTimeout(timeoutId);
-      resolve({
-        stdout,
-        stderr,
-        exitCode: code ?? 0,
-      });
-    });
-  });
+function toSandboxInfo(record: InstanceRecord): SandboxInfo {
+  const config = record.expanded_config ?? record.config;
+  const devices = record.expanded_devices ?? record.devices;
+  return {
+    name: record.name,
+    type: mapType(record.type),
+    state: mapStatus(record.status),
+    createdAt: new Date(record.created_at),
+    image: config?.['image.description'],
+    imageFingerprint: config?.['volatile.base_image'],
+    architecture: record.architecture,
+    profiles: record.profiles ?? [],
+    ipv4: addresses(record, 'inet'),
+    ipv6: addresses(record, 'inet6'),
+    limits: readLimits(config, devices),
+    mounts: readMounts(record.devices, record.config),
+    ports: readPorts(record.devices),
+    snapshotCount: record.snapshots?.length ?? 0,
+    ...readMetadata(record.config),
+  };
 }
 
-export async function checkIncusAvailable(): Promise<boolean> {
+interface InstanceStateRecord {
+  cpu?: { usage?: number } | null;
+  memory?: { usage?: number; usage_peak?: number } | null;
+  disk?: Record<string, { usage?: number }> | null;
+  network?: Record<string, { counters?: { bytes_received?: number; bytes_sent?: number } }> | null;
+  processes?: number;
+}
+
+// Runs in a child process so cleanup can finish inside a synchronous 'exit'
+// handler, where no more async work is allowed.
+const FORCE_DELETE_SCRIPT = `
+const { endpoint, project, names } = JSON.parse(process.env.ISB_CLEANUP);
+const url = typeof endpoint === 'string' ? null : new URL(endpoint.url);
+const transport = require(url ? 'https' : 'http');
+const connection = url
+  ? { host: url.hostname, port: url.port || 8443, cert: endpoint.cert, key: endpoint.key }
+  : { socketPath: endpoint };
+if (url && endpoint.serverCert) Object.assign(connection, { ca: endpoint.serverCert, checkServerIdentity: () => undefined });
+const query = project === 'default' ? '' : '?project=' + encodeURIComponent(project);
+const call = (method, path, body) => new Promise((resolve) => {
+  const req = transport.request({ ...connection, method, path, headers: { Host: 'incus', 'Content-Type': 'application/json' } }, (res) => {
+    let data = '';
+    res.on('data', (chunk) => (data += chunk));
+    res.on('end', () => { try { resolve(JSON.parse(data)); } catch { resolve(null); } });
+  });
+  req.on('error', () => resolve(null));
+  req.end(body ? JSON.stringify(body) : undefined);
+});
+const wait = (res) => (res && res.type === 'async' ? call('GET', res.operation + '/wait?timeout=30') : res);
+Promise.all(names.map(async (name) => {
+  const path = '/1.0/instances/' + encodeURIComponent(name);
+  await wait(await call('PUT', path + '/state' + query, { action: 'stop', force: true }));
+  await wait(await call('DELETE', path + query));
+}));
+`;
+
+const STDIN_CHUNK_SIZE = 64 * 1024;
+
+async function pumpStdin(socket: WebSocketConnection, input?: CommandInput): Promise<void> {
+  const write = async (data: Uint8Array) => {
+    for (let offset = 0; offset < data.length && !socket.isClosed; offset += STDIN_CHUNK_SIZE) {
+      const chunk = Buffer.from(data.buffer, data.byteOffset + offset, Math.min(STDIN_CHUNK_SIZE, data.length - offset));
+      if (!socket.send(chunk)) {
+        await socket.drain();
+      }
+    }
+  };
+
   try {
-    const result = await execIncus(['version']);
-    return result.exitCode === 0;
-  } catch {
-    return false;
+    if (typeof input === 'string') {
+      await write(Buffer.from(input, 'utf8'));
+    } else if (input instanceof Uint8Array) {
+      await write(input);
+    } else if (input) {
+      const reader = input.getReader();
+      // The process may exit before consuming its input; stop reading when it does.
+      socket.onClose(() => {
+        reader.cancel().catch(() => {});
+      });
+      while (!socket.isClosed) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await write(value);
+      }
+    }
+  } finally {
+    socket.close();
   }
 }
 
-export async function listInstances(options?: {
-  type?: SandboxType | 'all';
-  prefix?: string;
-}): Promise<SandboxInfo[]> {
-  const args = ['list', '--format', 'json'];
-
-  if (options?.type && options.type !== 'all') {
-    args.push('--type', options.type);
-  }
-
-  const result = await execIncus(args);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to list instances: ${result.stderr}`);
-  }
-
-  const instances = JSON.parse(result.stdout) as Array<{
-    name: string;
-    type: string;
-    status: string;
-    created_at: string;
-    config?: Record<string, string>;
-  }>;
-
-  return instances
-    .filter((i) => !options?.prefix || i.name.startsWith(options.prefix))
-    .map((i) => ({
-      name: i.name,
-      type: i.type as SandboxType,
-      state: mapStatus(i.status),
-      createdAt: new Date(i.created_at),
-      image: i.config?.['image.description'],
-    }));
+// Both scripts take the remote directory as $1. Archives go over exec stdin,
+// and come back base64-encoded because exec output is decoded as text.
+const EXTRACT_SCRIPT = 'mkdir -p "$1" && tar -x --no-same-owner -f - -C "$1"';
+// $1 = directory, $2 = "-h" to follow symlinks, then `find` tests for what to
+// leave out. With none, tar walks the tree itself.
+const ARCHIVE_SCRIPT = [
+  '[ -d "$1" ] || { echo "$1: No such directory" >&2; exit 1; }',
+  'dir="$1"; follow="$2"; shift 2',
+  'if [ $# -eq 0 ]; then tar -c $follow -f - -C "$dir" .',
+  'else cd "$dir" && find ${follow:+-L} . \\( "$@" \\) -prune -o -print0 | tar -c $follow --null --no-recursion -T - -f -',
+  'fi > /tmp/.isb-archive.$$ || exit 1',
+  'base64 -w0 /tmp/.isb-archive.$$; status=$?',
+  'rm -f /tmp/.isb-archive.$$',
+  'exit $status',
+].join('\n');
+
+/**
+ * `find` tests matching what ignore `patterns` match. Patterns `find` can't
+ * express exactly (`**`, anchored globs) are left to the caller's filter.
+ */
+function pruneTests(patterns: string[]): string[] {
+  const tests: string[][] = [];
+  for (const line of patterns) {
+    const pattern = parseIgnorePattern(line);
+    if (!pattern || pattern.negate || pattern.glob.includes('**')) continue;
+    if (pattern.anchored && /[*?[\\]/.test(pattern.glob)) continue;
+    const name = pattern.anchored ? ['-path', `./${pattern.glob}`] : ['-name', pattern.glob];
+    tests.push(pattern.directoryOnly ? ['-type', 'd', ...name] : name);
+  }
+  return tests.flatMap((test, i) => (i === 0 ? test : ['-o', ...test]));
 }
 
-export async function getInstance(name: string): Promise<{
+// $1 = path, $2 = find depth ("" for recursive). Uses inotifywait when the
+// image has it and falls back to polling with find/stat otherwise. The watcher
+// runs until stdin closes, which is how close() stops it.
+const WATCH_SCRIPT = [
+  'd="$1"; depth="$2"',
+  '[ -e "$d" ] || { echo "$d: No such file or directory" >&2; exit 1; }',
+  'if command -v inotifywait >/dev/null 2>&1; then',
+  '  r=""; [ -z "$depth" ] && r="-r"',
+  '  inotifywait -m -q $r -e create,modify,delete,moved_from,moved_to --format "%e %w%f" "$d" &',
+  'else',
+  '  (',
+  '    snap() { find "$d" -mindepth 1 $depth -exec stat -c "%Y.%s.%a %n" {} + 2>/dev/null | sort -k2; }',
+  '    prev=/tmp/.isb-watch.$$.prev; cur=/tmp/.isb-watch.$$.cur',
+  '    snap > "$prev"',
+  '    while sleep 0.5; do',
+  '      snap > "$cur"',
+  '      awk \'NR == FNR { seen[substr($0, index($0, " ") + 1)] = $1; next }',
+  '        { p = substr($0, index($0, " ") + 1); if (!(p in seen)) print "CREATE " p; else if (seen[p] != $1) print "MODIFY " p; delete seen[p] }',
+  '        END { for (p in seen) print "DELETE " p }\' "$prev" "$cur"',
+  '      mv "$cur" "$prev"',
+  '    done',
+  '  ) &',
+  'fi',
+  'pid=$!',
+  'cat > /dev/null',
+  'kill $pid 2>/dev/null',
+  'rm -f /tmp/.isb-watch.$$.*',
+].join('\n');
+
+function watchEventType(events: string): FileWatchEventType | null {
+  const names = events.split(',');
+  if (names.includes('MOVED_FROM') || names.includes('MOVED_TO')) return 'rename';
+  if (names.includes('CREATE')) return 'create';
+  if (names.includes('DELETE') || names.includes('DELETE_SELF')) return 'delete';
+  if (names.includes('MODIFY')) return 'modify';
+  return null;
+}
+
+interface ImageRecord {
+  fingerprint: string;
+  aliases: Array<{ name: string; description: string }> | null;
+  architecture: string;
+  type: string;
+  size: number;
+  public: boolean;
+  created_at: string;
+  properties: Record<string, string> | null;
+}
+
+function toImageInfo(image: ImageRecord): ImageInfo {
+  return {
+    fingerprint: image.fingerprint,
+    aliases: (image.aliases ?? []).map((a) => a.name),
+    description: image.properties?.description,
+    type: mapType(image.type),
+    architecture: image.architecture,
+    size: image.size,
+    public: image.public,
+    createdAt: new Date(image.created_at),
+    properties: image.properties ?? {},
+  };
+}
+
+interface ProjectRecord {
   name: string;
-  type: SandboxType;
-  state: SandboxState;
-  createdAt: Date;
-} | null> {
-  const result = await execIncus(['query', `/1.0/instances/${name}`]);
+  description: string;
+  config: Record<string, string> | null;
+  used_by: string[] | null;
+}
 
-  if (result.exitCode !== 0) {
-    return null;
+function imageAliasPath(alias: string): string {
+  return `/1.0/images/aliases/${encodeURIComponent(alias)}`;
+}
+
+/**
+ * Talks to an Incus daemon over its REST API: the one behind `config.socket`,
+ * or the HTTPS remote `config.remote` names. Requests are scoped to
+ * `config.project`.
+ */
+export class SocketBackend implements IncusBackend {
+  config: Required<IncusConfig>;
+  private resolved?: { remote: string; socket: string; endpoint: Endpoint };
+
+  constructor(config?: IncusConfig) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
-  try {
-    const instance = JSON.parse(result.stdout) as {
-      name: string;
-      type: string;
-      status: string;
-      created_at: string;
+  /** Resolved on first use and again whenever the remote or socket changes. */
+  private get endpoint(): Endpoint {
+    const { remote, socket } = this.config;
+    if (this.resolved?.remote !== remote || this.resolved.socket !== socket) {
+      this.resolved = { remote, socket, endpoint: resolveRemote(remote, socket) };
+    }
+    return this.resolved.endpoint;
+  }
+
+  /** Adds `project=` to everything but the server, operation and project endpoints. */
+  private scoped(path: string): string {
+    const { project } = this.config;
+    if (project === 'default' || /^\/1\.0(\/(operations|projects)(\/|\?|$)|\?|$)/.test(path)) {
+      return path;
+    }
+    return `${path}${path.includes('?') ? '&' : '?'}project=${encodeURIComponent(project)}`;
+  }
+
+  private request<T>(method: string, path: string, options?: RequestOptions): Promise<ApiResponse<T> & { etag?: string }> {
+    return apiRequest<T>(this.endpoint, method, this.scoped(path), options);
+  }
+
+  private raw(method: string, path: string): Promise<RawResponse> {
+    return apiRaw(this.endpoint, method, this.scoped(path));
+  }
+
+  private async call<T>(
+    method: string,
+    path: string,
+    failure: string,
+    options?: RequestOptions & { wait?: number }
+  ): Promise<T> {
+    const res = await this.request<T>(method, path, options);
+    if (res.type === 'error') {
+      throw new CommandError(`${failure}: ${res.error}`);
+    }
+
+    if (res.type === 'async') {
+      const op = await waitForOperation<T>(this.endpoint, res.operation, options?.wait ?? 60000);
+      if (op.status_code !== 200) {
+        throw new CommandError(`${failure}: ${op.err}`);
+      }
+      return op.metadata as T;
+    }
+
+    return res.metadata;
+  }
+
+  private async updateInstance(
+    name: string,
+    failure: string,
+    mutate: (instance: InstanceRecord) => void | Promise<void>
+  ): Promise<void> {
+    const res = await this.request<InstanceRecord>('GET', instancePath(name));
+    if (res.type === 'error') {
+      throw new CommandError(`${failure}: ${res.error}`);
+    }
+
+    const instance = res.metadata;
+    await mutate(instance);
+
+    await this.call('PUT', instancePath(name), failure, {
+      body: {
+        architecture: instance.architecture,
+        config: instance.config,
+        devices: instance.devices,
+        ephemeral: instance.ephemeral,
+        profiles: instance.profiles,
+        stateful: instance.stateful,
+        description: instance.description,
+      },
+      headers: res.etag ? { 'If-Match': res.etag } : undefined,
+    });
+  }
+
+  async checkIncusAvailable(): Promise<boolean> {
+    try {
+      const res = await this.request('GET', '/1.0', { timeout: 5000 });
+      return res.type === 'sync';
+    } catch {
+      return false;
+    }
+  }
+
+  async listInstances(options?: {
+    type?: SandboxType | 'all';
+    state?: SandboxState;
+    prefix?: string;
+  }): Promise<SandboxInfo[]> {
+    const instances = await this.call<InstanceRecord[]>('GET', '/1.0/instances?recursion=2', 'Failed to list instances');
+
+    return instances
+      .filter((i) => !options?.prefix || i.name.startsWith(options.prefix))
+      .filter((i) => !options?.type || options.type === 'all' || mapType(i.type) === options.type)
+      .filter((i) => !options?.state || mapStatus(i.status) === options.state)
+      .map(toSandboxInfo);
+  }
+
+  async getInstanceInfo(name: string): Promise<SandboxInfo | null> {
+    const res = await this.request<InstanceRecord>('GET', `${instancePath(name)}?recursion=1`);
+    if (res.type !== 'sync') {
+      return null;
+    }
+    return toSandboxInfo(res.metadata);
+  }
+
+  async getInstanceMetrics(name: string): Promise<SandboxMetrics> {
+    const state = await this.call<InstanceStateRecord>('GET', `${instancePath(name)}/state`, 'Failed to read metrics');
+    const interfaces = Object.entries(state.network ?? {}).filter(([iface]) => iface !== 'lo');
+    return {
+      timestamp: new Date(),
+      cpuTime: (state.cpu?.usage ?? 0) / 1e6,
+      memoryUsage: state.memory?.usage ?? 0,
+      memoryPeak: state.memory?.usage_peak ?? 0,
+      diskUsage: state.disk?.['root']?.usage ?? 0,
+      networkRx: interfaces.reduce((sum, [, net]) => sum + (net.counters?.bytes_received ?? 0), 0),
+      networkTx: interfaces.reduce((sum, [, net]) => sum + (net.counters?.bytes_sent ?? 0), 0),
+      // Incus reports -1 while stopped.
+      processes: Math.max(state.processes ?? 0, 0),
     };
+  }
 
+  async getInstance(name: string): Promise<InstanceSummary | null> {
+    const res = await this.request<InstanceRecord>('GET', instancePath(name));
+
+    if (res.type !== 'sync') {
+      return null;
+    }
+
+    const instance = res.metadata;
     return {
       name: instance.name,
-      type: instance.type as SandboxType,
+      type: mapType(instance.type),
       state: mapStatus(instance.status),
       createdAt: new Date(instance.created_at),
     };
-  } catch {
-    return null;
   }
-}
 
-function mapStatus(status: string): SandboxState {
-  const s = status.toLowerCase();
-  if (s === 'running') return 'running';
-  if (s === 'stopped') return 'stopped';
-  if (s === 'frozen') return 'frozen';
-  return 'error';
-}
+  /** Devices an instance inherits from its profiles; later profiles override earlier ones. */
+  private async profileDevices(profiles?: string[]): Promise<Record<string, DeviceConfig>> {
+    const devices: Record<string, DeviceConfig> = {};
+    for (const profile of profiles && profiles.length > 0 ? profiles : ['default']) {
+      const record = await this.call<{ devices?: Record<string, DeviceConfig> }>(
+        'GET',
+        `/1.0/profiles/${encodeURIComponent(profile)}`,
+        `Failed to read profile ${profile}`
+      );
+      Object.assign(devices, record.devices);
+    }
+    return devices;
+  }
 
-export async function launchInstance(
-  name: string,
-  image: string,
-  type: SandboxType,
-  limits?: { cpu?: number; memory?: string },
-  profiles?: string[]
-): Promise<void> {
-  const args = ['launch', image, name];
+  async launchInstance(
+    name: string,
+    image: string,
+    type: SandboxType,
+    limits?: SandboxLimits,
+    profiles?: string[],
+    config?: Record<string, string>,
+    start: boolean = true
+  ): Promise<void> {
+    const instanceConfig: Record<string, string> = { ...config, ...limitsConfig(limits) };
+    const needsDevices = limits?.disk || limits?.diskIops || limits?.diskBandwidth || limits?.networkIngress || limits?.networkEgress;
+    const devices = needsDevices ? limitDevices(limits, await this.profileDevices(profiles)) : {};
 
-  if (type === 'vm') {
-    args.push('--vm');
+    const source = imageSource(image, this.config.remote);
+    if (source.mode !== 'pull' && !(await this.getImage(source.alias ?? source.fingerprint!))) {
+      throw new ImageNotFoundError(image);
+    }
+
+    await this.call('POST', '/1.0/instances', 'Failed to launch instance', {
+      body: {
+        name,
+        type: type === 'vm' ? 'virtual-machine' : 'container',
+        source,
+        config: instanceConfig,
+        devices,
+        ...(profiles && profiles.length > 0 ? { profiles } : {}),
+        start,
+      },
+      wait: 120000,
+    }).catch((err: unknown) => {
+      throw imageError(err, image);
+    });
   }
 
-  if (profiles && profiles.length > 0) {
-    for (const profile of profiles) {
-      args.push('--profile', profile);
+  async copyInstance(
+    source: string,
+    name: string,
+    options: { snapshot?: string; config: Record<string, string>; keepMounts: boolean }
+  ): Promise<void> {
+    // Created stopped: forwarded ports would clash with the source's on start.
+    await this.call('POST', '/1.0/instances', 'Failed to copy instance', {
+      body: {
+        name,
+        source: {
+          type: 'copy',
+          source: options.snapshot ? `${source}/${options.snapshot}` : source,
+          instance_only: true,
+        },
+        start: false,
+      },
+      wait: 120000,
+    });
+    try {
+      await this.updateInstance(name, 'Failed to copy instance', (instance) => {
+        prepareFork(instance, options.config, options.keepMounts);
+      });
+      await this.startInstance(name);
+    } catch (err) {
+      await this.call('DELETE', instancePath(name), 'Failed to delete instance').catch(() => {});
+      throw err;
     }
   }
 
-  if (limits?.cpu) {
-    args.push('--config', `limits.cpu=${limits.cpu}`);
+  async setLimits(name: string, limits: SandboxLimits): Promise<void> {
+    await this.updateInstance(name, 'Failed to set limits', (instance) => {
+      Object.assign(instance.config, limitsConfig(limits));
+      Object.assign(instance.devices, limitDevices(limits, { ...instance.expanded_devices, ...instance.devices }));
+    });
   }
 
-  if (limits?.memory) {
-    args.push('--config', `limits.memory=${limits.memory}`);
+  async deleteInstance(name: string, force: boolean = false): Promise<void> {
+    if (force) {
+      const instance = await this.getInstance(name);
+      if (instance && instance.state !== 'stopped') {
+        await this.stopInstance(name, true);
+      }
+    }
+
+    await this.call('DELETE', instancePath(name), 'Failed to delete instance');
+    await this.deleteNetworkAcl(networkAclName(name));
   }
 
-  const result = await execIncus(args, { timeout: 120000 });
+  private async deleteNetworkAcl(acl: string): Promise<void> {
+    // Best effort: most sandboxes never had one.
+    await this.request('DELETE', `/1.0/network-acls/${encodeURIComponent(acl)}`).catch(() => {});
+  }
 
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to launch instance: ${result.stderr}`);
+  private async putNetworkAcl(acl: string, sandboxName: string, egress: AclRule[]): Promise<void> {
+    const path = `/1.0/network-acls/${encodeURIComponent(acl)}`;
+    const body = { description: `Egress policy for sandbox ${sandboxName}`, egress, ingress: [], config: {} };
+    const existing = await this.request('GET', path);
+    if (existing.type === 'sync') {
+      await this.call('PUT', path, `Failed to update network ACL ${acl}`, { body });
+    } else {
+      await this.call('POST', '/1.0/network-acls', `Failed to create network ACL ${acl}`, { body: { name: acl, ...body } });
+    }
   }
-}
 
-export async function deleteInstance(name: string, force: boolean = false): Promise<void> {
-  const args = ['delete', name];
-  if (force) {
-    args.push('--force');
+  async applyNetworkPolicy(name: string, resolved: ResolvedNetworkPolicy): Promise<void> {
+    const acl = networkAclName(name);
+    if (resolved.mode === 'restricted') {
+      await this.putNetworkAcl(acl, name, resolved.egress);
+    }
+    await this.updateInstance(name, 'Failed to apply network policy', async (instance) => {
+      applyPolicyToInstance(instance, await this.profileDevices(instance.profiles), resolved, acl);
+    });
+    if (resolved.mode !== 'restricted') {
+      await this.deleteNetworkAcl(acl);
+    }
   }
 
-  const result = await execIncus(args);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to delete instance: ${result.stderr}`);
+  deleteInstancesSync(names: string[]): void {
+    if (names.length === 0) return;
+    spawnSync(process.execPath, ['-e', FORCE_DELETE_SCRIPT], {
+      env: { ...process.env, ISB_CLEANUP: JSON.stringify({ endpoint: this.endpoint, project: this.config.project, names }) },
+      stdio: 'ignore',
+      timeout: 60000,
+    });
   }
-}
 
-export async function startInstance(name: string): Promise<void> {
-  const result = await execIncus(['start', name]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to start instance: ${result.stderr}`);
+  async startInstance(name: string): Promise<void> {
+    await this.call('PUT', `${instancePath(name)}/state`, 'Failed to start instance', {
+      body: { action: 'start', timeout: -1 },
+    });
   }
-}
 
-export async function stopInstance(name: string, force: boolean = false, timeout?: number): Promise<void> {
-  const args = ['stop', name];
-  if (force) {
-    args.push('--force');
+  async stopInstance(name: string, force: boolean = false, timeout?: number): Promise<void> {
+    await this.call('PUT', `${instancePath(name)}/state`, 'Failed to stop instance', {
+      body: {
+        action: 'stop',
+        force,
+        timeout: timeout ? Math.floor(timeout / 1000) : -1,
+      },
+    });
   }
-  if (timeout) {
-    args.push('--timeout', String(Math.floor(timeout / 1000)));
+
+  async restartInstance(name: string): Promise<void> {
+    await this.call('PUT', `${instancePath(name)}/state`, 'Failed to restart instance', {
+      body: { action: 'restart', timeout: -1 },
+    });
   }
 
-  const result = await execIncus(args);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to stop instance: ${result.stderr}`);
+  private async resolveUser(name: string, user: string): Promise<{ user: number; group: number }> {
+    if (/^\d+$/.test(user)) {
+      return { user: Number(user), group: Number(user) };
+    }
+    if (user === 'root') {
+      return { user: 0, group: 0 };
+    }
+
+    const result = await this.execInInstance(name, ['sh', '-c', 'id -u -- "$0" && id -g -- "$0"', user]);
+    const [uid, gid] = result.stdout.trim().split('\n');
+    if (result.exitCode !== 0 || !uid || !gid) {
+      throw new CommandError(`Failed to resolve user '${user}': ${result.stderr.trim()}`);
+    }
+    return { user: Number(uid), group: Number(gid) };
   }
-}
 
-export async function restartInstance(name: string): Promise<void> {
-  const result = await execIncus(['restart', name]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to restart instance: ${result.stderr}`);
+  async execInInstance(
+    name: string,
+    command: string[],
+    options?: ExecOptions
+  ): Promise<ExecResult> {
+    const identity = options?.user ? await this.resolveUser(name, options.user) : {};
+
+    if (options?.stdin !== undefined || options?.onStdout || options?.onStderr) {
+      return this.execWithWebsockets(name, command, identity, options);
+    }
+
+    const op = await this.call<{ return: number; output: Record<string, string> }>(
+      'POST',
+      `${instancePath(name)}/exec`,
+      'Failed to execute command',
+      {
+        body: {
+          command,
+          environment: options?.env ?? {},
+          cwd: options?.cwd ?? '',
+          ...identity,
+          interactive: false,
+          'wait-for-websocket': false,
+          'record-output': true,
+        },
+        wait: options?.timeout ?? 30000,
+      }
+    );
+
+    const readLog = async (logPath?: string): Promise<string> => {
+      if (!logPath) return '';
+      const res = await this.raw('GET', logPath);
+      await this.raw('DELETE', logPath).catch(() => {});
+      return res.statusCode === 200 ? res.body.toString('utf8') : '';
+    };
+
+    return {
+      stdout: await readLog(op.output?.['1']),
+      stderr: await readLog(op.output?.['2']),
+      exitCode: op.return ?? 0,
+    };
   }
-}
 
-export async function execInInstance(
-  name: string,
-  command: string[],
-  options?: { cwd?: string; env?: Record<string, string>; user?: string; timeout?: number }
-): Promise<ExecResult> {
-  const args = ['exec', name];
+  private operationSocket(operation: string, secret: string): Promise<WebSocketConnection> {
+    return connectWebSocket(this.endpoint, `${operation}/websocket?secret=${encodeURIComponent(secret)}`);
+  }
+
+  private async execWithWebsockets(
+    name: string,
+    command: string[],
+    identity: { user?: number; group?: number },
+    options: ExecOptions
+  ): Promise<ExecResult> {
+    const res = await this.request<Operation<{ fds: Record<string, string> }>>(
+      'POST',
+      `${instancePath(name)}/exec`,
+      {
+        body: {
+          command,
+          environment: options.env ?? {},
+          cwd: options.cwd ?? '',
+          ...identity,
+          interactive: false,
+          'wait-for-websocket': true,
+          'record-output': false,
+        },
+      }
+    );
+    if (res.type === 'error') {
+      throw new CommandError(`Failed to execute command: ${res.error}`);
+    }
+
+    const fds = res.metadata.metadata?.fds ?? {};
+    const connect = (fd: string) => this.operationSocket(res.operation, fds[fd] ?? '');
+    const sockets: WebSocketConnection[] = [];
+
+    try {
+      const [control, stdin, stdoutSocket, stderrSocket] = await Promise.all(['control', '0', '1', '2'].map(connect));
+      sockets.push(control!, stdin!, stdoutSocket!, stderrSocket!);
+      const stdinDone = pumpStdin(stdin!, options.stdin);
+
+      const collect = (socket: WebSocketConnection, onChunk?: (chunk: string) => void) =>
+        new Promise<string>((resolve) => {
+          const decoder = new StringDecoder('utf8');
+          let output = '';
+          socket.onMessage((data) => {
+            const chunk = decoder.write(data);
+            if (chunk) {
+              output += chunk;
+              onChunk?.(chunk);
+            }
+          });
+          socket.onClose(() => {
+            const rest = decoder.end();
+            if (rest) {
+              output += rest;
+              onChunk?.(rest);
+            }
+            resolve(output);
+          });
+        });
+
+      const stdoutDone = collect(stdoutSocket!, options.onStdout);
+      const stderrDone = collect(stderrSocket!, options.onStderr);
+
+      let op: Operation<{ return: number }>;
+      try {
+        op = await waitForOperation<{ return: number }>(this.endpoint, res.operation, options.timeout ?? 30000);
+      } catch (err) {
+        control!.send(JSON.stringify({ command: 'signal', signal: 9 }));
+        throw err;
+      }
+      if (op.status_code !== 200) {
+        throw new CommandError(`Failed to execute command: ${op.err}`);
+      }
+
+      const [stdout, stderr] = await Promise.all([stdoutDone, stderrDone, stdinDone]);
+      return { stdout, stderr, exitCode: op.metadata?.return ?? 0 };
+    } finally {
+      for (const socket of sockets) {
+        socket.close();
+      }
+    }
+  }
+
+  async openTerminal(name: string, options?: TerminalOptions): Promise<TerminalSession> {
+    const user = options?.user ?? 'root';
+    const command = options?.command ?? (options?.cwd ? ['su', user] : ['su', '-l', user]);
+
+    const res = await this.request<Operation<{ fds: Record<string, string> }>>(
+      'POST',
+      `${instancePath(name)}/exec`,
+      {
+        body: {
+          command,
+          environment: { TERM: 'xterm-256color', ...options?.env },
+          cwd: options?.cwd ?? '',
+          interactive: true,
+          'wait-for-websocket': true,
+          width: options?.cols ?? 80,
+          height: options?.rows ?? 24,
+        },
+      }
+    );
+    if (res.type === 'error') {
+      throw new CommandError(`Failed to open terminal: ${res.error}`);
+    }
+
+    const fds = res.metadata.metadata?.fds ?? {};
+    const [data, control] = await Promise.all([
+      this.operationSocket(res.operation, fds['0'] ?? ''),
+      this.operationSocket(res.operation, fds['control'] ?? ''),
+    ]);
 
-  if (options?.cwd) {
-    args.push('--cwd', options.cwd);
+    const exited = waitForOperation<{ return: number }>(this.endpoint, res.operation, 0).then(
+      (op) => op.metadata?.return ?? 0,
+      () => -1
+    );
+    exited.then(() => {
+      data.close();
+      control.close();
+    });
+
+    return {
+      write(input) {
+        data.send(typeof input === 'string' ? Buffer.from(input, 'utf8') : Buffer.from(input));
+      },
+      resize(cols, rows) {
+        control.send(JSON.stringify({ command: 'window-resize', args: { width: String(cols), height: String(rows) } }));
+      },
+      onData(handler) {
+        data.onMessage((chunk) => handler(new Uint8Array(chunk)));
+      },
+      onExit(handler) {
+        exited.then(handler);
+      },
+      wait() {
+        return exited;
+      },
+      close() {
+        control.send(JSON.stringify({ command: 'signal', signal: 1 }));
+        data.close();
+        control.close();
+      },
+    };
   }
 
-  if (options?.user) {
-    args.push('--user', options.user);
+  private async pushDirectory(name: string, remotePath: string): Promise<void> {
+    await this.call('POST', `${instancePath(name)}/files?path=${encodeURIComponent(remotePath)}`, 'Failed to create directory', {
+      headers: { 'X-Incus-type': 'directory', 'X-Incus-mode': '0755' },
+    });
   }
 
-  if (options?.env) {
-    for (const [key, value] of Object.entries(options.env)) {
-      args.push('--env', `${key}=${value}`);
+  async readFile(name: string, remotePath: string): Promise<Uint8Array> {
+    const res = await this.raw('GET', `${instancePath(name)}/files?path=${encodeURIComponent(remotePath)}`);
+    if (res.statusCode !== 200) {
+      let message = `HTTP ${res.statusCode}`;
+      try {
+        message = (JSON.parse(res.body.toString('utf8')) as { error: string }).error;
+      } catch {}
+      throw new CommandError(`Failed to read file: ${message}`);
+    }
+    if (res.headers['x-incus-type'] === 'directory') {
+      throw new CommandError(`Failed to read file: ${remotePath} is a directory`);
     }
+    return res.body;
   }
 
-  args.push('--');
-  args.push(...command);
+  async writeFile(
+    name: string,
+    remotePath: string,
+    content: Uint8Array,
+    options?: { mode?: number }
+  ): Promise<void> {
+    const headers: Record<string, string> = {
+      'X-Incus-type': 'file',
+      'X-Incus-mode': (options?.mode ?? 0o644).toString(8).padStart(4, '0'),
+      'X-Incus-write': 'overwrite',
+    };
+    if (options?.mode !== undefined) {
+      // Without this Incus keeps the permissions of a file that already exists.
+      headers['X-Incus-modify-perm'] = 'mode';
+    }
 
-  return execIncus(args, { timeout: options?.timeout ?? 30000 });
-}
+    const upload = () =>
+      this.call('POST', `${instancePath(name)}/files?path=${encodeURIComponent(remotePath)}`, 'Failed to write file', {
+        body: Buffer.from(content.buffer, content.byteOffset, content.byteLength),
+        headers,
+      });
 
-export async function pushFile(name: string, localPath: string, remotePath: string): Promise<void> {
-  const result = await execIncus(['file', 'push', '-p', localPath, `${name}${remotePath}`]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to push file: ${result.stderr}`);
+    try {
+      await upload();
+    } catch {
+      const parents = path.posix.dirname(remotePath).split('/').filter(Boolean);
+      for (let i = 1; i <= parents.length; i++) {
+        await this.pushDirectory(name, '/' + parents.slice(0, i).join('/')).catch(() => {});
+      }
+      await upload();
+    }
   }
-}
 
-export async function pullFile(name: string, remotePath: string, localPath: string): Promise<void> {
-  const result = await execIncus(['file', 'pull', `${name}${remotePath}`, localPath]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to pull file: ${result.stderr}`);
+  async uploadArchive(name: string, remoteDir: string, archive: Uint8Array, options?: { timeout?: number }): Promise<void> {
+    const result = await this.execInInstance(name, ['sh', '-c', EXTRACT_SCRIPT, 'sh', remoteDir], {
+      stdin: archive,
+      timeout: options?.timeout ?? 0,
+    });
+    if (result.exitCode !== 0) {
+      throw new CommandError(`Failed to upload archive: ${result.stderr.trim()}`);
+    }
   }
-}
 
-export async function createSnapshot(name: string, snapshotName: string): Promise<void> {
-  const result = await execIncus(['snapshot', 'create', name, snapshotName]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to create snapshot: ${result.stderr}`);
+  async downloadArchive(
+    name: string,
+    remoteDir: string,
+    options?: { dereference?: boolean; exclude?: string[]; timeout?: number }
+  ): Promise<Uint8Array> {
+    const result = await this.execInInstance(
+      name,
+      ['sh', '-c', ARCHIVE_SCRIPT, 'sh', remoteDir, options?.dereference ? '-h' : '', ...pruneTests(options?.exclude ?? [])],
+      { timeout: options?.timeout ?? 0 }
+    );
+    if (result.exitCode !== 0) {
+      throw new CommandError(`Failed to download archive: ${result.stderr.trim()}`);
+    }
+    return Buffer.from(result.stdout, 'base64');
   }
-}
 
-export async function restoreSnapshot(name: string, snapshotName: string): Promise<void> {
-  const result = await execIncus(['snapshot', 'restore', name, snapshotName]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to restore snapshot: ${result.stderr}`);
+  async watchFiles(
+    name: string,
+    watchPath: string,
+    options: WatchOptions,
+    onEvent: (event: FileWatchEvent) => void
+  ): Promise<WatchHandle> {
+    let stop!: () => void;
+    const stdin = new ReadableStream<Uint8Array>({
+      start(controller) {
+        stop = () => {
+          try {
+            controller.close();
+          } catch {}
+        };
+      },
+    });
+
+    let partial = '';
+    const done = this.execInInstance(name, ['sh', '-c', WATCH_SCRIPT, 'sh', watchPath, options.recursive ? '' : '-maxdepth 1'], {
+      timeout: 0,
+      stdin,
+      onStdout: (chunk) => {
+        const lines = (partial + chunk).split('\n');
+        partial = lines.pop() ?? '';
+        for (const line of lines) {
+          const space = line.indexOf(' ');
+          const type = watchEventType(line.slice(0, space));
+          if (space > 0 && type) {
+            onEvent({ type, path: line.slice(space + 1) });
+          }
+        }
+      },
+    }).then((result) => {
+      if (result.exitCode !== 0) {
+        throw new CommandError(`Failed to watch ${watchPath}: ${result.stderr.trim()}`);
+      }
+    });
+
+    return { close: stop, done };
   }
-}
 
-export async function deleteSnapshot(name: string, snapshotName: string): Promise<void> {
-  const result = await execIncus(['snapshot', 'delete', name, snapshotName]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to delete snapshot: ${result.stderr}`);
+  async pushFile(name: string, localPath: string, remotePath: string): Promise<void> {
+    const [content, stat] = await Promise.all([fs.readFile(localPath), fs.stat(localPath)]);
+    await this.writeFile(name, remotePath, content, { mode: stat.mode & 0o777 });
   }
-}
 
-export async function listSnapshots(name: string): Promise<Array<{ name: string; createdAt: Date; stateful: boolean }>> {
-  const result = await execIncus(['snapshot', 'list', name, '--format', 'json']);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to list snapshots: ${result.stderr}`);
+  async pullFile(name: string, remotePath: string, localPath: string): Promise<void> {
+    const content = await this.readFile(name, remotePath);
+
+    let target = localPath;
+    const localStat = await fs.stat(localPath).catch(() => null);
+    if (localStat?.isDirectory()) {
+      target = path.join(localPath, path.posix.basename(remotePath));
+    }
+    await fs.writeFile(target, content);
   }
 
-  const snapshots = JSON.parse(result.stdout || '[]') as Array<{
-    name: string;
-    created_at: string;
-    stateful: boolean;
-  }>;
+  async createSnapshot(name: string, snapshotName: string): Promise<void> {
+    await this.call('POST', `${instancePath(name)}/snapshots`, 'Failed to create snapshot', {
+      body: { name: snapshotName },
+    });
+  }
 
-  return snapshots.map((s) => ({
-    name: s.name,
-    createdAt: new Date(s.created_at),
-    stateful: s.stateful,
-  }));
-}
+  async restoreSnapshot(name: string, snapshotName: string): Promise<void> {
+    await this.call('PUT', instancePath(name), 'Failed to restore snapshot', {
+      body: { restore: snapshotName },
+    });
+  }
 
-export async function addDiskDevice(
-  instanceName: string,
-  deviceName: string,
-  source: string,
-  path: string,
-  options?: { readonly?: boolean; shift?: boolean }
-): Promise<void> {
-  const args = ['config', 'device', 'add', instanceName, deviceName, 'disk', `source=${source}`, `path=${path}`];
+  async deleteSnapshot(name: string, snapshotName: string): Promise<void> {
+    await this.call(
+      'DELETE',
+      `${instancePath(name)}/snapshots/${encodeURIComponent(snapshotName)}`,
+      'Failed to delete snapshot'
+    );
+  }
 
-  if (options?.readonly) {
-    args.push('readonly=true');
+  async listSnapshots(name: string): Promise<Array<{ name: string; createdAt: Date; stateful: boolean }>> {
+    const snapshots = await this.call<Array<{ name: string; created_at: string; stateful: boolean }>>(
+      'GET',
+      `${instancePath(name)}/snapshots?recursion=1`,
+      'Failed to list snapshots'
+    );
+
+    return (snapshots ?? []).map((s) => ({
+      name: s.name,
+      createdAt: new Date(s.created_at),
+      stateful: s.stateful,
+    }));
   }
 
-  if (options?.shift === true) {
-    args.push('shift=true');
+  async listImages(): Promise<ImageInfo[]> {
+    const images = await this.call<ImageRecord[]>('GET', '/1.0/images?recursion=1', 'Failed to list images');
+    return (images ?? []).map(toImageInfo);
   }
 
-  const result = await execIncus(args);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to add disk device: ${result.stderr}`);
+  async getImage(ref: string): Promise<ImageInfo | null> {
+    const alias = await this.request<{ target: string }>('GET', imageAliasPath(ref));
+    const fingerprint = alias.type === 'sync' ? alias.metadata.target : ref;
+    if (alias.type !== 'sync' && !FINGERPRINT.test(ref)) {
+      return null;
+    }
+
+    // Incus resolves unique fingerprint prefixes here.
+    const res = await this.request<ImageRecord>('GET', `/1.0/images/${encodeURIComponent(fingerprint)}`);
+    return res.type === 'sync' ? toImageInfo(res.metadata) : null;
   }
-}
 
-export async function removeDiskDevice(instanceName: string, deviceName: string): Promise<void> {
-  const result = await execIncus(['config', 'device', 'remove', instanceName, deviceName]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to remove disk device: ${result.stderr}`);
+  async publishImage(
+    instanceName: string,
+    options: { snapshot?: string; description?: string; public?: boolean; properties?: Record<string, string> }
+  ): Promise<string> {
+    const properties = { ...options.properties, ...(options.description ? { description: options.description } : {}) };
+    const op = await this.call<{ fingerprint: string }>('POST', '/1.0/images', 'Failed to publish image', {
+      body: {
+        source: options.snapshot
+          ? { type: 'snapshot', name: `${instanceName}/${options.snapshot}` }
+          : { type: 'instance', name: instanceName },
+        public: options.public ?? false,
+        properties,
+      },
+      wait: 600000,
+    });
+    return op.fingerprint;
   }
-}
 
-export async function setInstanceConfig(instanceName: string, key: string, value: string): Promise<void> {
-  const result = await execIncus(['config', 'set', instanceName, `${key}=${value}`]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to set config ${key}: ${result.stderr}`);
+  async copyImage(image: string, options: { autoUpdate?: boolean }): Promise<string> {
+    const source = imageSource(image, this.config.remote);
+    if (source.mode !== 'pull') {
+      throw new CommandError(`Failed to copy image: '${image}' is not a remote image`);
+    }
+    try {
+      const op = await this.call<{ fingerprint: string }>('POST', '/1.0/images', 'Failed to copy image', {
+        body: { source, auto_update: options.autoUpdate ?? false },
+        wait: 600000,
+      });
+      return op.fingerprint;
+    } catch (err) {
+      throw imageError(err, image);
+    }
   }
-}
 
-export async function getInstanceConfig(instanceName: string, key: string): Promise<string | null> {
-  const result = await execIncus(['config', 'get', instanceName, key]);
-  if (result.exitCode !== 0) {
-    return null;
+  async setImageAlias(alias: string, fingerprint: string): Promise<void> {
+    const existing = await this.request('GET', imageAliasPath(alias));
+    if (existing.type === 'sync') {
+      await this.call('PUT', imageAliasPath(alias), 'Failed to update image alias', { body: { target: fingerprint, description: '' } });
+    } else {
+      await this.call('POST', '/1.0/images/aliases', 'Failed to create image alias', { body: { name: alias, target: fingerprint } });
+    }
   }
-  return result.stdout.trim();
-}
 
-export async function listDevices(instanceName: string): Promise<
-  Record<string, { type: string; source?: string; path?: string; readonly?: string; shift?: string }>
-> {
-  const result = await execIncus(['config', 'device', 'show', instanceName]);
-  if (result.exitCode !== 0) {
-    throw new CommandError(`Failed to list devices: ${result.stderr}`);
+  async deleteImage(fingerprint: string): Promise<void> {
+    await this.call('DELETE', `/1.0/images/${encodeURIComponent(fingerprint)}`, 'Failed to delete image');
   }
 
-  if (!result.stdout.trim()) {
-    return {};
+  async listProjects(): Promise<ProjectInfo[]> {
+    const projects = await this.call<ProjectRecord[]>('GET', '/1.0/projects?recursion=1', 'Failed to list projects');
+    return (projects ?? []).map((project) => ({
+      name: project.name,
+      description: project.description,
+      config: project.config ?? {},
+      usedBy: project.used_by ?? [],
+    }));
   }
 
-  const lines = result.stdout.split('\n');
-  const devices: Record<string, Record<string, string>> = {};
-  let currentDevice: string | null = null;
+  async createProject(name: string, options: CreateProjectOptions): Promise<void> {
+    await this.call('POST', '/1.0/projects', 'Failed to create project', {
+      body: { name, description: options.description ?? '', config: options.config ?? {} },
+    });
+  }
 
-  for (const line of lines) {
-    if (!line.startsWith(' ') && line.endsWith(':')) {
-      currentDevice = line.slice(0, -1);
-      devices[currentDevice] = {};
-    } else if (currentDevice && line.includes(':')) {
-      const [key, ...valueParts] = line.trim().split(':');
-      if (key) {
-        devices[currentDevice]![key.trim()] = valueParts.join(':').trim();
+  async deleteProject(name: string): Promise<void> {
+    await this.call('DELETE', `/1.0/projects/${encodeURIComponent(name)}`, 'Failed to delete project');
+  }
+
+  async addDiskDevice(
+    instanceName: string,
+    deviceName: string,
+    source: string,
+    path: string,
+    options?: { readonly?: boolean; shift?: boolean }
+  ): Promise<void> {
+    const device: DeviceConfig = { type: 'disk', source, path };
+
+    if (options?.readonly) {
+      device.readonly = 'true';
+    }
+
+    if (options?.shift === true) {
+      device.shift = 'true';
+    }
+
+    await this.updateInstance(instanceName, 'Failed to add disk device', (instance) => {
+      if (instance.devices[deviceName]) {
+        throw new CommandError(`Failed to add disk device: device '${deviceName}' already exists`);
+      }
+      instance.devices[deviceName] = device;
+    });
+  }
+
+  async removeDiskDevice(instanceName: string, deviceName: string): Promise<void> {
+    await this.updateInstance(instanceName, 'Failed to remove disk device', (instance) => {
+      if (!instance.devices[deviceName]) {
+        throw new CommandError(`Failed to remove disk device: device '${deviceName}' doesn't exist`);
+      }
+      delete instance.devices[deviceName];
+    });
+  }
+
+  async addProxyDevice(instanceName: string, deviceName: string, listen: string, connect: string): Promise<void> {
+    await this.updateInstance(instanceName, 'Failed to add proxy device', (instance) => {
+      if (instance.devices[deviceName]) {
+        throw new CommandError(`Failed to add proxy device: device '${deviceName}' already exists`);
       }
+      instance.devices[deviceName] = { type: 'proxy', listen, connect, bind: 'host' };
+    });
+  }
+
+  async removeProxyDevice(instanceName: string, deviceName: string): Promise<void> {
+    await this.updateInstance(instanceName, 'Failed to remove proxy device', (instance) => {
+      if (!instance.devices[deviceName]) {
+        throw new CommandError(`Failed to remove proxy device: device '${deviceName}' doesn't exist`);
+      }
+      delete instance.devices[deviceName];
+    });
+  }
+
+  async setInstanceConfig(instanceName: string, key: string, value: string): Promise<void> {
+    if (value === '') {
+      await this.updateInstance(instanceName, `Failed to unset config ${key}`, (instance) => {
+        delete instance.config[key];
+      });
+      return;
     }
+    // PATCH merges the one key, so it can't 412 against a concurrent updateInstance().
+    await this.call('PATCH', instancePath(instanceName), `Failed to set config ${key}`, {
+      body: { config: { [key]: value } },
+    });
   }
 
-  return devices as Record<string, { type: string; source?: string; path?: string; readonly?: string; shift?: string }>;
+  async getInstanceConfig(instanceName: string, key: string): Promise<string | null> {
+    const res = await this.request<InstanceRecord>('GET', instancePath(instanceName));
+    if (res.type !== 'sync') {
+      return null;
+    }
+    return res.metadata.config?.[key] ?? null;
+  }
+
+  async listDevices(instanceName: string): Promise<Record<string, DeviceConfig>> {
+    const instance = await this.call<InstanceRecord>('GET', instancePath(instanceName), 'Failed to list devices');
+    return instance.devices ?? {};
+  }
 }
@@ -87,3 +87,24 @@ export class MountNotFoundError extends IncusSdkError {
     this.name = 'MountNotFoundError';
   }
 }
+
+export class PortNotExposedError extends IncusSdkError {
+  constructor(port: number, protocol: string) {
+    super(`Port ${protocol}/${port} is not exposed`, 'PORT_NOT_EXPOSED');
+    this.name = 'PortNotExposedError';
+  }
+}
+
+export class ProcessNotFoundError extends IncusSdkError {
+  constructor(id: string) {
+    super(`Process '${id}' not found`, 'PROCESS_NOT_FOUND');
+    this.name = 'ProcessNotFoundError';
+  }
+}
+
+export class InvalidArgumentError extends IncusSdkError {
+  constructor(message: string) {
+    super(message, 'INVALID_ARGUMENT');
+    this.name = 'InvalidArgumentError';
+  }
+}
@@ -0,0 +1,1451 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { DeviceConfig, ExecOptions, ExecResult, IncusBackend, InstanceSummary, WatchHandle } from './backend';
+import type {
+  CommandInput,
+  CreateProjectOptions,
+  FileWatchEvent,
+  ImageInfo,
+  ProjectInfo,
+  SandboxInfo,
+  SandboxLimits,
+  SandboxMetrics,
+  SandboxState,
+  SandboxType,
+  SnapshotInfo,
+  TerminalOptions,
+  TerminalSession,
+  WatchOptions,
+} from './types';
+import { CommandError, ImageNotFoundError } from './errors';
+import { prepareFork, readMetadata, readMounts } from './metadata';
+import { limitDevices, limitsConfig, readLimits } from './limits';
+import { applyPolicyToInstance, networkAclName } from './network';
+import { readPorts } from './ports';
+import type { AclRule, ResolvedNetworkPolicy } from './network';
+import { createIgnoreMatcher } from './ignore';
+import { packTar, unpackTar } from './tar';
+import { LIST_SCRIPT, PROCESS_ROOT, SPAWN_SCRIPT, STATUS_SCRIPT } from './process';
+import type { TarEntry } from './tar';
+
+export interface FakeFile {
+  type: 'file' | 'directory' | 'symlink';
+  content: Buffer;
+  mode: number;
+  uid: number;
+  gid: number;
+  mtime: Date;
+}
+
+export interface FakeInstance {
+  name: string;
+  type: SandboxType;
+  state: SandboxState;
+  createdAt: Date;
+  image: string;
+  architecture: string;
+  addresses: { ipv4: string[]; ipv6: string[] };
+  profiles: string[];
+  config: Record<string, string>;
+  devices: Record<string, DeviceConfig>;
+  files: Map<string, FakeFile>;
+  /** Counters behind `getInstanceMetrics`; tests may bump them to simulate load. */
+  usage: { cpuTime: number; memory: number; memoryPeak: number; networkRx: number; networkTx: number };
+  snapshots: Map<
+    string,
+    { createdAt: Date; config: Record<string, string>; devices: Record<string, DeviceConfig>; files: Map<string, FakeFile> }
+  >;
+}
+
+export interface FakeExecContext {
+  instance: FakeInstance;
+  command: string[];
+  cwd: string;
+  env: Record<string, string>;
+  stdin: string;
+}
+
+export type FakeExecHandler = (
+  context: FakeExecContext
+) => ExecResult | undefined | Promise<ExecResult | undefined>;
+
+export interface FakeIncusOptions {
+  /** Images that can be launched or copied besides the local store; any image if omitted */
+  images?: string[];
+}
+
+/** An image in the fake's local store. Launching from it copies its files. */
+export interface FakeImage {
+  fingerprint: string;
+  aliases: string[];
+  type: SandboxType;
+  public: boolean;
+  createdAt: Date;
+  properties: Record<string, string>;
+  files: Map<string, FakeFile>;
+}
+
+/** What the fake pretends every profile provides, for limits that override them. */
+const DEFAULT_PROFILE_DEVICES: Record<string, DeviceConfig> = {
+  root: { type: 'disk', path: '/', pool: 'default' },
+  eth0: { type: 'nic', network: 'incusbr0' },
+};
+
+const BASE_DIRECTORIES = ['/', '/bin', '/etc', '/home', '/root', '/tmp', '/usr', '/var'];
+
+async function readInput(input?: CommandInput): Promise<string> {
+  if (input === undefined) return '';
+  if (typeof input === 'string') return input;
+  if (input instanceof Uint8Array) return Buffer.from(input).toString('utf8');
+  return Buffer.from(await new Response(input).arrayBuffer()).toString('utf8');
+}
+
+function imageInfo({ files, properties, ...image }: FakeImage): ImageInfo {
+  return {
+    ...image,
+    aliases: [...image.aliases],
+    description: properties.description,
+    architecture: 'x86_64',
+    size: [...files.values()].reduce((total, file) => total + file.content.length, 0),
+    properties: { ...properties },
+  };
+}
+
+function cloneFiles(files: Map<string, FakeFile>): Map<string, FakeFile> {
+  return new Map([...files].map(([p, f]) => [p, { ...f }]));
+}
+
+/**
+ * In-memory stand-in for Incus. Instances, snapshots, devices and config are
+ * plain objects, and exec understands the handful of shell commands the SDK
+ * itself issues. Anything else can be answered with `onExec`.
+ */
+export class FakeIncusBackend implements IncusBackend {
+  readonly instances = new Map<string, FakeInstance>();
+  /** Egress rules by ACL name, as they would be sent to Incus. */
+  readonly networkAcls = new Map<string, AclRule[]>();
+  /** The local image store, by fingerprint. */
+  readonly images = new Map<string, FakeImage>();
+  /** Projects by name. The fake keeps one set of instances and images whichever project is in use. */
+  readonly projects = new Map<string, Omit<ProjectInfo, 'usedBy'>>([
+    ['default', { name: 'default', description: 'Default Incus project', config: {} }],
+  ]);
+  available = true;
+  private readonly knownImages?: Set<string>;
+  private readonly handlers: FakeExecHandler[] = [];
+  /** Spawned processes that have neither exited nor been killed, by pid. */
+  private readonly liveProcesses = new WeakMap<FakeInstance, Map<number, AbortController>>();
+  private nextAddress = 2;
+  private nextPid = 1000;
+
+  constructor(options?: FakeIncusOptions) {
+    this.knownImages = options?.images ? new Set(options.images) : undefined;
+  }
+
+  onExec(handler: FakeExecHandler): void {
+    this.handlers.push(handler);
+  }
+
+  async checkIncusAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  async listInstances(options?: {
+    type?: SandboxType | 'all';
+    state?: SandboxState;
+    prefix?: string;
+  }): Promise<SandboxInfo[]> {
+    return [...this.instances.values()]
+      .filter((i) => !options?.prefix || i.name.startsWith(options.prefix))
+      .filter((i) => !options?.type || options.type === 'all' || i.type === options.type)
+      .filter((i) => !options?.state || i.state === options.state)
+      .map((i) => this.info(i));
+  }
+
+  async getInstanceInfo(name: string): Promise<SandboxInfo | null> {
+    const instance = this.instances.get(name);
+    return instance ? this.info(instance) : null;
+  }
+
+  async getInstance(name: string): Promise<InstanceSummary | null> {
+    const instance = this.instances.get(name);
+    if (!instance) {
+      return null;
+    }
+    return { name, type: instance.type, state: instance.state, createdAt: instance.createdAt };
+  }
+
+  async getInstanceMetrics(name: string): Promise<SandboxMetrics> {
+    const instance = this.require(name, 'Failed to read metrics');
+    const running = instance.state === 'running';
+    const { usage } = instance;
+    usage.memoryPeak = Math.max(usage.memoryPeak, running ? usage.memory : 0);
+    let diskUsage = 0;
+    for (const file of instance.files.values()) diskUsage += file.content.length;
+    return {
+      timestamp: new Date(),
+      cpuTime: usage.cpuTime,
+      memoryUsage: running ? usage.memory : 0,
+      memoryPeak: usage.memoryPeak,
+      diskUsage,
+      networkRx: usage.networkRx,
+      networkTx: usage.networkTx,
+      processes: running ? 1 : 0,
+    };
+  }
+
+  async launchInstance(
+    name: string,
+    image: string,
+    type: SandboxType,
+    limits?: SandboxLimits,
+    profiles?: string[],
+    config?: Record<string, string>,
+    start: boolean = true
+  ): Promise<void> {
+    if (this.instances.has(name)) {
+      throw new CommandError(`Failed to launch instance: Instance '${name}' already exists`);
+    }
+    const local = this.isLocalImage(image) ? this.findImage(image.replace(/^local:/, '')) : undefined;
+    if (!local && this.knownImages && !this.knownImages.has(image)) {
+      throw new ImageNotFoundError(image);
+    }
+
+    const instanceConfig: Record<string, string> = {
+      'image.description': local?.properties.description ?? image,
+      'volatile.base_image': local?.fingerprint ?? createHash('sha256').update(image).digest('hex'),
+      ...config,
+      ...limitsConfig(limits),
+    };
+    const devices = limitDevices(limits, DEFAULT_PROFILE_DEVICES);
+
+    const files = local ? cloneFiles(local.files) : new Map<string, FakeFile>();
+    for (const dir of local ? [] : BASE_DIRECTORIES) {
+      files.set(dir, { type: 'directory', content: Buffer.alloc(0), mode: 0o755, uid: 0, gid: 0, mtime: new Date() });
+    }
+    files.set('/etc/hostname', {
+      type: 'file',
+      content: Buffer.from(`${name}\n`),
+      mode: 0o644,
+      uid: 0,
+      gid: 0,
+      mtime: new Date(),
+    });
+
+    this.nextAddress++;
+    this.instances.set(name, {
+      name,
+      type,
+      state: start ? 'running' : 'stopped',
+      createdAt: new Date(),
+      image,
+      architecture: 'x86_64',
+      addresses: { ipv4: [`10.100.0.${this.nextAddress}`], ipv6: [`fd42::${this.nextAddress}`] },
+      profiles: profiles && profiles.length > 0 ? profiles : ['default'],
+      config: instanceConfig,
+      devices,
+      files,
+      usage: { cpuTime: 0, memory: 64 * 1024 * 1024, memoryPeak: 0, networkRx: 0, networkTx: 0 },
+      snapshots: new Map(),
+    });
+  }
+
+  async copyInstance(
+    source: string,
+    name: string,
+    options: { snapshot?: string; config: Record<string, string>; keepMounts: boolean }
+  ): Promise<void> {
+    const original = this.require(source, 'Failed to copy instance');
+    if (this.instances.has(name)) {
+      throw new CommandError(`Failed to copy instance: Instance '${name}' already exists`);
+    }
+    const from = options.snapshot ? original.snapshots.get(options.snapshot) : original;
+    if (!from) {
+      throw new CommandError(`Failed to copy instance: Snapshot '${options.snapshot}' not found`);
+    }
+
+    const config = Object.fromEntries(
+      Object.entries(from.config).filter(([key]) => !key.startsWith('volatile.') || key === 'volatile.base_image')
+    );
+    const devices = structuredClone(from.devices);
+    prepareFork({ config, devices }, options.config, options.keepMounts);
+
+    const files = cloneFiles(from.files);
+    const hostname = files.get('/etc/hostname');
+    if (hostname) {
+      // Image templates rewrite it on copy.
+      files.set('/etc/hostname', { ...hostname, content: Buffer.from(`${name}\n`), mtime: new Date() });
+    }
+
+    this.nextAddress++;
+    this.instances.set(name, {
+      ...original,
+      name,
+      state: 'running',
+      createdAt: new Date(),
+      addresses: { ipv4: [`10.100.0.${this.nextAddress}`], ipv6: [`fd42::${this.nextAddress}`] },
+      profiles: [...original.profiles],
+      config,
+      devices,
+      files,
+      usage: { cpuTime: 0, memory: 64 * 1024 * 1024, memoryPeak: 0, networkRx: 0, networkTx: 0 },
+      snapshots: new Map(),
+    });
+  }
+
+  async setLimits(name: string, limits: SandboxLimits): Promise<void> {
+    const instance = this.require(name, 'Failed to set limits');
+    Object.assign(instance.config, limitsConfig(limits));
+    Object.assign(instance.devices, limitDevices(limits, { ...DEFAULT_PROFILE_DEVICES, ...instance.devices }));
+  }
+
+  async deleteInstance(name: string, force: boolean = false): Promise<void> {
+    const instance = this.require(name, 'Failed to delete instance');
+    if (instance.state === 'running' && !force) {
+      throw new CommandError('Failed to delete instance: Instance is running');
+    }
+    this.instances.delete(name);
+    this.networkAcls.delete(networkAclName(name));
+    this.endProcesses(instance);
+  }
+
+  async startInstance(name: string): Promise<void> {
+    this.require(name, 'Failed to start instance').state = 'running';
+  }
+
+  async stopInstance(name: string, force: boolean = false, timeout?: number): Promise<void> {
+    const instance = this.require(name, 'Failed to stop instance');
+    if (instance.state !== 'running') {
+      throw new CommandError('Failed to stop instance: The instance is already stopped');
+    }
+    instance.state = 'stopped';
+    this.endProcesses(instance);
+  }
+
+  async restartInstance(name: string): Promise<void> {
+    const instance = this.require(name, 'Failed to restart instance');
+    instance.state = 'running';
+    this.endProcesses(instance);
+  }
+
+  async execInInstance(name: string, command: string[], options?: ExecOptions): Promise<ExecResult> {
+    const instance = this.require(name, 'Failed to execute command');
+    if (instance.state !== 'running') {
+      throw new CommandError('Failed to execute command: Instance is not running');
+    }
+
+    instance.usage.cpuTime += 10;
+    const stdin = await readInput(options?.stdin);
+    const result =
+      this.processCommand(instance, command, options) ??
+      (await new FakeShell(instance, this.handlers, options?.cwd ?? '/root', options?.env ?? {}, stdin).run(command));
+    if (result.stdout) options?.onStdout?.(result.stdout);
+    if (result.stderr) options?.onStderr?.(result.stderr);
+    return result;
+  }
+
+  async openTerminal(name: string, options?: TerminalOptions): Promise<TerminalSession> {
+    const instance = this.require(name, 'Failed to open terminal');
+    if (instance.state !== 'running') {
+      throw new CommandError('Failed to open terminal: Instance is not running');
+    }
+    return new FakeTerminal(instance, this.handlers, options?.cwd ?? '/root', {
+      TERM: 'xterm-256color',
+      ...options?.env,
+    });
+  }
+
+  async readFile(name: string, remotePath: string): Promise<Uint8Array> {
+    const instance = this.require(name, 'Failed to read file');
+    const file = instance.files.get(path.posix.normalize(remotePath));
+    if (!file) {
+      throw new CommandError('Failed to read file: Not Found');
+    }
+    if (file.type === 'directory') {
+      throw new CommandError(`Failed to read file: ${remotePath} is a directory`);
+    }
+    return Buffer.from(file.content);
+  }
+
+  async writeFile(name: string, remotePath: string, content: Uint8Array, options?: { mode?: number }): Promise<void> {
+    this.storeFile(this.require(name, 'Failed to write file'), remotePath, content, options?.mode);
+  }
+
+  async uploadArchive(name: string, remoteDir: string, archive: Uint8Array, options?: { timeout?: number }): Promise<void> {
+    const instance = this.require(name, 'Failed to upload archive');
+    const root = path.posix.normalize(remoteDir);
+    this.ensureDirectory(instance, root);
+
+    for (const entry of unpackTar(archive)) {
+      const target = path.posix.join(root, entry.path);
+      this.ensureDirectory(instance, path.posix.dirname(target));
+      instance.files.set(target, {
+        type: entry.type,
+        content: Buffer.from(entry.type === 'symlink' ? entry.linkname ?? '' : entry.content ?? new Uint8Array()),
+        mode: entry.type === 'symlink' ? 0o777 : entry.mode,
+        uid: 0,
+        gid: 0,
+        mtime: entry.mtime,
+      });
+    }
+  }
+
+  async downloadArchive(
+    name: string,
+    remoteDir: string,
+    options?: { dereference?: boolean; exclude?: string[]; timeout?: number }
+  ): Promise<Uint8Array> {
+    const instance = this.require(name, 'Failed to download archive');
+    const root = path.posix.normalize(remoteDir);
+    if (instance.files.get(root)?.type !== 'directory') {
+      throw new CommandError(`Failed to download archive: ${remoteDir}: No such directory`);
+    }
+
+    const prefix = root === '/' ? '/' : `${root}/`;
+    const excluded = createIgnoreMatcher(options?.exclude);
+    const entries: TarEntry[] = [];
+    for (const [filePath, file] of [...instance.files].sort(([a], [b]) => a.localeCompare(b))) {
+      if (!filePath.startsWith(prefix)) continue;
+      if (excluded(filePath.slice(prefix.length), file.type === 'directory')) continue;
+      let resolved = file;
+      if (file.type === 'symlink' && options?.dereference) {
+        const target = path.posix.resolve(path.posix.dirname(filePath), file.content.toString('utf8'));
+        resolved = instance.files.get(target) ?? file;
+      }
+      entries.push({
+        path: filePath.slice(prefix.length),
+        type: resolved.type,
+        mode: resolved.mode,
+        mtime: resolved.mtime,
+        content: resolved.type === 'file' ? resolved.content : undefined,
+        linkname: resolved.type === 'symlink' ? resolved.content.toString('utf8') : undefined,
+      });
+    }
+    return packTar(entries);
+  }
+
+  /** Polls the in-memory tree, so only changes that outlive one interval are seen. */
+  async watchFiles(
+    name: string,
+    watchPath: string,
+    options: WatchOptions,
+    onEvent: (event: FileWatchEvent) => void
+  ): Promise<WatchHandle> {
+    const instance = this.require(name, 'Failed to watch');
+    const root = path.posix.normalize(watchPath);
+    if (!instance.files.has(root)) {
+      throw new CommandError(`Failed to watch ${watchPath}: No such file or directory`);
+    }
+
+    const prefix = root === '/' ? '/' : `${root}/`;
+    const snapshot = () => {
+      const entries = new Map<string, FakeFile>();
+      for (const [filePath, file] of instance.files) {
+        const rest = filePath.slice(prefix.length);
+        if (filePath.startsWith(prefix) && (options.recursive || !rest.includes('/'))) {
+          entries.set(filePath, { ...file, content: file.content });
+        }
+      }
+      return entries;
+    };
+
+    let previous = snapshot();
+    let resolveDone!: () => void;
+    const done = new Promise<void>((resolve) => (resolveDone = resolve));
+    const timer = setInterval(() => {
+      if (!this.instances.has(name)) {
+        clearInterval(timer);
+        resolveDone();
+        return;
+      }
+      const current = snapshot();
+      for (const [filePath, file] of current) {
+        const before = previous.get(filePath);
+        if (!before) {
+          onEvent({ type: 'create', path: filePath });
+        } else if (
+          before.content !== file.content ||
+          before.mode !== file.mode ||
+          before.mtime.getTime() !== file.mtime.getTime()
+        ) {
+          onEvent({ type: 'modify', path: filePath });
+        }
+      }
+      for (const filePath of previous.keys()) {
+        if (!current.has(filePath)) onEvent({ type: 'delete', path: filePath });
+      }
+      previous = current;
+    }, 20);
+
+    return {
+      close: () => {
+        clearInterval(timer);
+        resolveDone();
+      },
+      done,
+    };
+  }
+
+  async pushFile(name: string, localPath: string, remotePath: string): Promise<void> {
+    this.require(name, 'Failed to push file');
+    const [content, stat] = await Promise.all([fs.readFile(localPath), fs.stat(localPath)]);
+    await this.writeFile(name, remotePath, content, { mode: stat.mode & 0o777 });
+  }
+
+  async pullFile(name: string, remotePath: string, localPath: string): Promise<void> {
+    this.require(name, 'Failed to pull file');
+    const content = await this.readFile(name, remotePath);
+
+    let target = localPath;
+    const localStat = await fs.stat(localPath).catch(() => null);
+    if (localStat?.isDirectory()) {
+      target = path.join(localPath, path.posix.basename(remotePath));
+    }
+    await fs.writeFile(target, content);
+  }
+
+  async createSnapshot(name: string, snapshotName: string): Promise<void> {
+    const instance = this.require(name, 'Failed to create snapshot');
+    if (instance.snapshots.has(snapshotName)) {
+      throw new CommandError(`Failed to create snapshot: Snapshot '${snapshotName}' already exists`);
+    }
+    instance.snapshots.set(snapshotName, {
+      createdAt: new Date(),
+      config: { ...instance.config },
+      devices: structuredClone(instance.devices),
+      files: cloneFiles(instance.files),
+    });
+  }
+
+  async restoreSnapshot(name: string, snapshotName: string): Promise<void> {
+    const instance = this.require(name, 'Failed to restore snapshot');
+    const snapshot = instance.snapshots.get(snapshotName);
+    if (!snapshot) {
+      throw new CommandError(`Failed to restore snapshot: Snapshot '${snapshotName}' not found`);
+    }
+    instance.config = { ...snapshot.config };
+    instance.devices = structuredClone(snapshot.devices);
+    instance.files = cloneFiles(snapshot.files);
+  }
+
+  async deleteSnapshot(name: string, snapshotName: string): Promise<void> {
+    const instance = this.require(name, 'Failed to delete snapshot');
+    if (!instance.snapshots.delete(snapshotName)) {
+      throw new CommandError(`Failed to delete snapshot: Snapshot '${snapshotName}' not found`);
+    }
+  }
+
+  async listSnapshots(name: string): Promise<SnapshotInfo[]> {
+    const instance = this.require(name, 'Failed to list snapshots');
+    return [...instance.snapshots].map(([snapshotName, s]) => ({
+      name: snapshotName,
+      createdAt: s.createdAt,
+      stateful: false,
+    }));
+  }
+
+  async listImages(): Promise<ImageInfo[]> {
+    return [...this.images.values()].map(imageInfo);
+  }
+
+  async getImage(ref: string): Promise<ImageInfo | null> {
+    const image = this.findImage(ref);
+    return image ? imageInfo(image) : null;
+  }
+
+  async publishImage(
+    instanceName: string,
+    options: { snapshot?: string; description?: string; public?: boolean; properties?: Record<string, string> }
+  ): Promise<string> {
+    const instance = this.require(instanceName, 'Failed to publish image');
+    const source = options.snapshot ? instance.snapshots.get(options.snapshot) : instance;
+    if (!source) {
+      throw new CommandError(`Failed to publish image: Snapshot '${options.snapshot}' not found`);
+    }
+    if (!options.snapshot && instance.state === 'running') {
+      throw new CommandError('Failed to publish image: The instance is currently running');
+    }
+
+    const files = cloneFiles(source.files);
+    const digest = createHash('sha256');
+    for (const [filePath, file] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+      digest.update(filePath).update(file.content);
+    }
+    const fingerprint = digest.update(`${instanceName}/${options.snapshot ?? ''}`).digest('hex');
+    const properties = { ...options.properties, ...(options.description ? { description: options.description } : {}) };
+    this.images.set(fingerprint, {
+      fingerprint,
+      aliases: this.images.get(fingerprint)?.aliases ?? [],
+      type: instance.type,
+      public: options.public ?? false,
+      createdAt: new Date(),
+      properties,
+      files,
+    });
+    return fingerprint;
+  }
+
+  async copyImage(image: string, options: { autoUpdate?: boolean }): Promise<string> {
+    if (this.isLocalImage(image)) {
+      throw new CommandError(`Failed to copy image: '${image}' is not a remote image`);
+    }
+    if (this.knownImages && !this.knownImages.has(image)) {
+      throw new ImageNotFoundError(image);
+    }
+    const fingerprint = createHash('sha256').update(image).digest('hex');
+    const files = new Map<string, FakeFile>();
+    for (const dir of BASE_DIRECTORIES) {
+      files.set(dir, { type: 'directory', content: Buffer.alloc(0), mode: 0o755, uid: 0, gid: 0, mtime: new Date() });
+    }
+    this.images.set(fingerprint, {
+      fingerprint,
+      aliases: this.images.get(fingerprint)?.aliases ?? [],
+      type: 'container',
+      public: false,
+      createdAt: new Date(),
+      properties: { description: image },
+      files,
+    });
+    return fingerprint;
+  }
+
+  async setImageAlias(alias: string, fingerprint: string): Promise<void> {
+    const target = this.images.get(fingerprint);
+    if (!target) {
+      throw new CommandError('Failed to create image alias: Image not found');
+    }
+    for (const image of this.images.values()) {
+      image.aliases = image.aliases.filter((a) => a !== alias);
+    }
+    target.aliases.push(alias);
+  }
+
+  async deleteImage(fingerprint: string): Promise<void> {
+    if (!this.images.delete(fingerprint)) {
+      throw new CommandError('Failed to delete image: Image not found');
+    }
+  }
+
+  async listProjects(): Promise<ProjectInfo[]> {
+    return [...this.projects.values()].map((project) => ({
+      ...project,
+      config: { ...project.config },
+      usedBy: project.name === 'default' ? [...this.instances.keys()].map((name) => `/1.0/instances/${name}`) : [],
+    }));
+  }
+
+  async createProject(name: string, options: CreateProjectOptions): Promise<void> {
+    if (this.projects.has(name)) {
+      throw new CommandError(`Failed to create project: Project '${name}' already exists`);
+    }
+    this.projects.set(name, { name, description: options.description ?? '', config: { ...options.config } });
+  }
+
+  async deleteProject(name: string): Promise<void> {
+    if (name === 'default') {
+      throw new CommandError("Failed to delete project: The 'default' project cannot be deleted");
+    }
+    if (!this.projects.delete(name)) {
+      throw new CommandError('Failed to delete project: Project not found');
+    }
+  }
+
+  async addDiskDevice(
+    instanceName: string,
+    deviceName: string,
+    source: string,
+    path: string,
+    options?: { readonly?: boolean; shift?: boolean }
+  ): Promise<void> {
+    const instance = this.require(instanceName, 'Failed to add disk device');
+    if (instance.devices[deviceName]) {
+      throw new CommandError(`Failed to add disk device: device '${deviceName}' already exists`);
+    }
+
+    const device: DeviceConfig = { type: 'disk', source, path };
+    if (options?.readonly) device.readonly = 'true';
+    if (options?.shift === true) device.shift = 'true';
+    instance.devices[deviceName] = device;
+  }
+
+  async removeDiskDevice(instanceName: string, deviceName: string): Promise<void> {
+    const instance = this.require(instanceName, 'Failed to remove disk device');
+    if (!instance.devices[deviceName]) {
+      throw new CommandError(`Failed to remove disk device: device '${deviceName}' doesn't exist`);
+    }
+    delete instance.devices[deviceName];
+  }
+
+  async addProxyDevice(instanceName: string, deviceName: string, listen: string, connect: string): Promise<void> {
+    const instance = this.require(instanceName, 'Failed to add proxy device');
+    if (instance.devices[deviceName]) {
+      throw new CommandError(`Failed to add proxy device: device '${deviceName}' already exists`);
+    }
+    instance.devices[deviceName] = { type: 'proxy', listen, connect, bind: 'host' };
+  }
+
+  async removeProxyDevice(instanceName: string, deviceName: string): Promise<void> {
+    const instance = this.require(instanceName, 'Failed to remove proxy device');
+    if (!instance.devices[deviceName]) {
+      throw new CommandError(`Failed to remove proxy device: device '${deviceName}' doesn't exist`);
+    }
+    delete instance.devices[deviceName];
+  }
+
+  async listDevices(instanceName: string): Promise<Record<string, DeviceConfig>> {
+    return { ...this.require(instanceName, 'Failed to list devices').devices };
+  }
+
+  async setInstanceConfig(instanceName: string, key: string, value: string): Promise<void> {
+    const instance = this.require(instanceName, `Failed to set config ${key}`);
+    if (value === '') {
+      delete instance.config[key];
+    } else {
+      instance.config[key] = value;
+    }
+  }
+
+  async getInstanceConfig(instanceName: string, key: string): Promise<string | null> {
+    return this.instances.get(instanceName)?.config[key] ?? null;
+  }
+
+  async applyNetworkPolicy(instanceName: string, resolved: ResolvedNetworkPolicy): Promise<void> {
+    const instance = this.require(instanceName, 'Failed to apply network policy');
+    const acl = networkAclName(instanceName);
+    applyPolicyToInstance(instance, DEFAULT_PROFILE_DEVICES, resolved, acl);
+    if (resolved.mode === 'restricted') {
+      this.networkAcls.set(acl, resolved.egress);
+    } else {
+      this.networkAcls.delete(acl);
+    }
+  }
+
+  private info(instance: FakeInstance): SandboxInfo {
+    const running = instance.state === 'running';
+    return {
+      name: instance.name,
+      type: instance.type,
+      state: instance.state,
+      createdAt: instance.createdAt,
+      image: instance.image,
+      imageFingerprint: instance.config['volatile.base_image'],
+      architecture: instance.architecture,
+      profiles: [...instance.profiles],
+      ipv4: running ? [...instance.addresses.ipv4] : [],
+      ipv6: running ? [...instance.addresses.ipv6] : [],
+      limits: readLimits(instance.config, instance.devices),
+      mounts: readMounts(instance.devices, instance.config),
+      ports: readPorts(instance.devices),
+      snapshotCount: instance.snapshots.size,
+      ...readMetadata(instance.config),
+    };
+  }
+
+  private storeFile(instance: FakeInstance, remotePath: string, content: Uint8Array | string, mode?: number): void {
+    this.ensureDirectory(instance, path.posix.dirname(remotePath));
+    const target = path.posix.normalize(remotePath);
+    instance.files.set(target, {
+      type: 'file',
+      content: Buffer.from(content),
+      mode: mode ?? instance.files.get(target)?.mode ?? 0o644,
+      uid: 0,
+      gid: 0,
+      mtime: new Date(),
+    });
+  }
+
+  /**
+   * Answers the scripts behind `sandbox.spawn()` and friends, which need job
+   * control the fake shell doesn't have. A spawned command runs in its own
+   * fake shell; its output lands in the process directory when it exits.
+   */
+  private processCommand(instance: FakeInstance, command: string[], options?: ExecOptions): ExecResult | undefined {
+    let live = this.liveProcesses.get(instance);
+    if (!live) {
+      live = new Map();
+      this.liveProcesses.set(instance, live);
+    }
+    const status = (dir: string) => {
+      const exit = instance.files.get(`${dir}/exit`);
+      if (exit) return `exited ${exit.content.toString('utf8').trim()}`;
+      return live.has(Number(instance.files.get(`${dir}/pid`)?.content.toString('utf8'))) ? 'running' : 'killed';
+    };
+    const [cmd, flag, script, , dir = '', spawned = ''] = command;
+
+    if (cmd === 'kill') {
+      const pid = Number(command.at(-1)?.replace(/^-/, ''));
+      const running = live.get(pid);
+      live.delete(pid);
+      running?.abort();
+      if (!running) {
+        return { stdout: '', stderr: `sh: kill: (${command.at(-1)}) - No such process\n`, exitCode: 1 };
+      }
+      return { stdout: '', stderr: '', exitCode: 0 };
+    }
+    if (cmd !== 'sh' || flag !== '-c') {
+      return undefined;
+    }
+
+    switch (script) {
+      case SPAWN_SCRIPT: {
+        const pid = this.nextPid++;
+        this.storeFile(instance, `${dir}/command`, spawned);
+        this.storeFile(instance, `${dir}/started`, `${Math.floor(Date.now() / 1000)}\n`);
+        this.storeFile(instance, `${dir}/stdout`, '');
+        this.storeFile(instance, `${dir}/stderr`, '');
+        this.storeFile(instance, `${dir}/pid`, `${pid}\n`);
+        const controller = new AbortController();
+        live.set(pid, controller);
+        const shell = new FakeShell(instance, this.handlers, options?.cwd ?? '/root', options?.env ?? {}, '', controller.signal);
+        void shell
+          .run(['sh', '-c', spawned])
+          .catch((err: unknown) => ({ stdout: '', stderr: `${(err as Error).message}\n`, exitCode: 1 }))
+          .then((result) => {
+            // A killed process leaves no exit status behind.
+            if (!live.delete(pid)) return;
+            this.storeFile(instance, `${dir}/stdout`, result.stdout);
+            this.storeFile(instance, `${dir}/stderr`, result.stderr);
+            this.storeFile(instance, `${dir}/exit`, `${result.exitCode}\n`);
+          });
+        return { stdout: `${pid}\n`, stderr: '', exitCode: 0 };
+      }
+      case STATUS_SCRIPT:
+        return { stdout: `${status(dir)}\n`, stderr: '', exitCode: 0 };
+      case LIST_SCRIPT: {
+        const lines = [...instance.files.keys()]
+          .filter((p) => p.startsWith(`${PROCESS_ROOT}/`) && p.endsWith('/pid') && p.split('/').length === 5)
+          .sort()
+          .map((p) => {
+            const processDir = path.posix.dirname(p);
+            const read = (file: string) => instance.files.get(`${processDir}/${file}`)?.content ?? Buffer.alloc(0);
+            const fields = [
+              path.posix.basename(processDir),
+              read('pid').toString('utf8').trim(),
+              read('started').toString('utf8').trim(),
+              status(processDir),
+              read('command').toString('base64'),
+            ];
+            return `${fields.join('\t')}\n`;
+          });
+        return { stdout: lines.join(''), stderr: '', exitCode: 0 };
+      }
+    }
+    return undefined;
+  }
+
+  private endProcesses(instance: FakeInstance): void {
+    for (const controller of this.liveProcesses.get(instance)?.values() ?? []) controller.abort();
+    this.liveProcesses.delete(instance);
+  }
+
+  private ensureDirectory(instance: FakeInstance, dir: string): void {
+    const parts = dir.split('/').filter(Boolean);
+    for (let i = 1; i <= parts.length; i++) {
+      const parent = '/' + parts.slice(0, i).join('/');
+      if (!instance.files.has(parent)) {
+        instance.files.set(parent, { type: 'directory', content: Buffer.alloc(0), mode: 0o755, uid: 0, gid: 0, mtime: new Date() });
+      }
+    }
+  }
+
+  private isLocalImage(image: string): boolean {
+    return image.indexOf(':') <= 0 || image.startsWith('local:');
+  }
+
+  private findImage(ref: string): FakeImage | undefined {
+    const images = [...this.images.values()];
+    return (
+      images.find((i) => i.aliases.includes(ref)) ??
+      (/^[0-9a-f]{12,64}$/.test(ref) ? images.find((i) => i.fingerprint.startsWith(ref)) : undefined)
+    );
+  }
+
+  private require(name: string, failure: string): FakeInstance {
+    const instance = this.instances.get(name);
+    if (!instance) {
+      throw new CommandError(`${failure}: Instance not found`);
+    }
+    return instance;
+  }
+}
+
+/**
+ * Line-oriented stand-in for a PTY shell: input is echoed back, each line runs
+ * through FakeShell when Enter is pressed, and `exit` ends the session.
+ */
+class FakeTerminal implements TerminalSession {
+  private line = '';
+  private pending: Buffer[] = [];
+  private dataHandlers: Array<(data: Uint8Array) => void> = [];
+  private exitHandlers: Array<(exitCode: number) => void> = [];
+  private queue: Promise<void> = Promise.resolve();
+  private exitCode: number | null = null;
+  private readonly exited: Promise<number>;
+  private resolveExit!: (exitCode: number) => void;
+  cols = 80;
+  rows = 24;
+
+  constructor(
+    private instance: FakeInstance,
+    private handlers: FakeExecHandler[],
+    private cwd: string,
+    private env: Record<string, string>
+  ) {
+    this.exited = new Promise((resolve) => (this.resolveExit = resolve));
+    this.emit('# ');
+  }
+
+  write(data: string | Uint8Array): void {
+    if (this.exitCode !== null) return;
+    const input = typeof data === 'string' ? data : Buffer.from(data).toString('utf8');
+    this.queue = this.queue.then(() => this.input(input));
+  }
+
+  resize(cols: number, rows: number): void {
+    this.cols = cols;
+    this.rows = rows;
+  }
+
+  onData(handler: (data: Uint8Array) => void): void {
+    this.dataHandlers.push(handler);
+    const pending = this.pending;
+    this.pending = [];
+    for (const chunk of pending) {
+      handler(chunk);
+    }
+  }
+
+  onExit(handler: (exitCode: number) => void): void {
+    this.exitHandlers.push(handler);
+    if (this.exitCode !== null) handler(this.exitCode);
+  }
+
+  wait(): Promise<number> {
+    return this.exited;
+  }
+
+  close(): void {
+    this.finish(129);
+  }
+
+  private async input(input: string): Promise<void> {
+    for (const ch of input) {
+      if (this.exitCode !== null) return;
+      if (ch === '\r' || ch === '\n') {
+        this.emit('\r\n');
+        const line = this.line;
+        this.line = '';
+        await this.run(line);
+      } else if (ch === '\x7f' || ch === '\b') {
+        if (this.line.length > 0) {
+          this.line = this.line.slice(0, -1);
+          this.emit('\b \b');
+        }
+      } else if (ch === '\x04' && this.line.length === 0) {
+        this.finish(0);
+      } else {
+        this.line += ch;
+        this.emit(ch);
+      }
+    }
+  }
+
+  private async run(line: string): Promise<void> {
+    const shell = new FakeShell(this.instance, this.handlers, this.cwd, this.env, '');
+    const result = await shell.run(['sh', '-c', line]);
+    this.cwd = shell.workingDirectory;
+    this.emit((result.stdout + result.stderr).replace(/\r?\n/g, '\r\n'));
+    if (/^\s*exit(\s|$)/.test(line)) {
+      this.finish(result.exitCode);
+      return;
+    }
+    this.emit('# ');
+  }
+
+  private emit(text: string): void {
+    if (text.length === 0) return;
+    const chunk = Buffer.from(text, 'utf8');
+    if (this.dataHandlers.length === 0) {
+      this.pending.push(chunk);
+      return;
+    }
+    for (const handler of this.dataHandlers) {
+      handler(chunk);
+    }
+  }
+
+  private finish(exitCode: number): void {
+    if (this.exitCode !== null) return;
+    this.exitCode = exitCode;
+    this.resolveExit(exitCode);
+    for (const handler of this.exitHandlers) {
+      handler(exitCode);
+    }
+  }
+}
+
+type Token = { word: string } | { op: string };
+
+interface SimpleCommand {
+  argv: string[];
+  stdout?: { path: string; append: boolean };
+  stderr?: { path: string; append: boolean } | 'stdout';
+}
+
+class ExitSignal {
+  constructor(readonly code: number) {}
+}
+
+class FakeShell {
+  private stdout = '';
+  private stderr = '';
+  private status = 0;
+  private args: string[] = [];
+
+  constructor(
+    private instance: FakeInstance,
+    private handlers: FakeExecHandler[],
+    private cwd: string,
+    private env: Record<string, string>,
+    private stdin: string,
+    /** Ends a running `sleep` early, as killing the process would. */
+    private signal?: AbortSignal
+  ) {}
+
+  get workingDirectory(): string {
+    return this.cwd;
+  }
+
+  async run(command: string[]): Promise<ExecResult> {
+    try {
+      this.status = await this.exec(command);
+    } catch (err) {
+      if (!(err instanceof ExitSignal)) throw err;
+      this.status = err.code;
+    }
+    return { stdout: this.stdout, stderr: this.stderr, exitCode: this.status };
+  }
+
+  private consumeStdin(): string {
+    const input = this.stdin;
+    this.stdin = '';
+    return input;
+  }
+
+  private resolve(p: string): string {
+    return path.posix.resolve(this.cwd, p);
+  }
+
+  private file(p: string): FakeFile | undefined {
+    return this.instance.files.get(this.resolve(p));
+  }
+
+  private write(p: string, content: Buffer, append: boolean): boolean {
+    const target = this.resolve(p);
+    if (target === '/dev/null') return true;
+    if (this.file(path.posix.dirname(target))?.type !== 'directory') {
+      this.stderr += `sh: ${p}: No such file or directory\n`;
+      return false;
+    }
+    const existing = this.instance.files.get(target);
+    this.instance.files.set(target, {
+      type: 'file',
+      content: append && existing ? Buffer.concat([existing.content, content]) : content,
+      mode: existing?.mode ?? 0o644,
+      uid: existing?.uid ?? 0,
+      gid: existing?.gid ?? 0,
+      mtime: new Date(),
+    });
+    return true;
+  }
+
+  private async script(source: string): Promise<number> {
+    const tokens = this.tokenize(source);
+    let status = 0;
+    let skip = false;
+    let current: SimpleCommand = { argv: [] };
+
+    const flush = async () => {
+      if (!skip && current.argv.length > 0) {
+        status = await this.simple(current);
+        this.status = status;
+      }
+      current = { argv: [] };
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]!;
+      if ('word' in token) {
+        current.argv.push(token.word);
+        continue;
+      }
+
+      const next = tokens[i + 1];
+      const target = next && 'word' in next ? next.word : '';
+      switch (token.op) {
+        case '>':
+        case '>>':
+          current.stdout = { path: target, append: token.op === '>>' };
+          i++;
+          break;
+        case '2>':
+        case '2>>':
+          current.stderr = { path: target, append: token.op === '2>>' };
+          i++;
+          break;
+        case '2>&1':
+          current.stderr = 'stdout';
+          break;
+        case ';':
+          await flush();
+          skip = false;
+          break;
+        case '&&':
+          await flush();
+          skip = skip || status !== 0;
+          break;
+        case '||':
+          await flush();
+          skip = !skip && status === 0;
+          break;
+      }
+    }
+    await flush();
+    return status;
+  }
+
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let word = '';
+    let inWord = false;
+    let i = 0;
+
+    const expand = () => {
+      const rest = source.slice(i + 1);
+      const match = rest.match(/^(\{(\w+)\}|(\w+)|\?|@)/);
+      if (!match) {
+        word += '$';
+        return;
+      }
+      i += match[0].length;
+      const name = match[2] ?? match[3] ?? match[0];
+      if (name === '?') word += String(this.status);
+      else if (name === '@') word += this.args.slice(1).join(' ');
+      else if (/^\d+$/.test(name)) word += this.args[Number(name)] ?? '';
+      else word += this.env[name] ?? '';
+    };
+
+    const push = () => {
+      if (inWord) tokens.push({ word });
+      word = '';
+      inWord = false;
+    };
+
+    for (; i < source.length; i++) {
+      const ch = source[i]!;
+      if (ch === '\'') {
+        const end = source.indexOf('\'', i + 1);
+        word += source.slice(i + 1, end === -1 ? undefined : end);
+        inWord = true;
+        i = end === -1 ? source.length : end;
+      } else if (ch === '"') {
+        inWord = true;
+        for (i++; i < source.length && source[i] !== '"'; i++) {
+          if (source[i] === '\\' && '"\\$`'.includes(source[i + 1] ?? '')) {
+            word += source[++i];
+          } else if (source[i] === '$') {
+            expand();
+          } else {
+            word += source[i];
+          }
+        }
+      } else if (ch === '\\') {
+        word += source[++i] ?? '';
+        inWord = true;
+      } else if (ch === '$') {
+        expand();
+        inWord = true;
+      } else if (ch === ' ' || ch === '\t') {
+        push();
+      } else if (ch === '\n' || ch === ';') {
+        push();
+        tokens.push({ op: ';' });
+      } else if (ch === '&' && source[i + 1] === '&') {
+        push();
+        tokens.push({ op: '&&' });
+        i++;
+      } else if (ch === '|' && source[i + 1] === '|') {
+        push();
+        tokens.push({ op: '||' });
+        i++;
+      } else if (ch === '>' || (ch === '2' && !inWord && source[i + 1] === '>')) {
+        push();
+        const op = source.slice(i).match(/^(2>&1|2>>|2>|>>|>)/)![0];
+        tokens.push({ op });
+        i += op.length - 1;
+      } else {
+        word += ch;
+        inWord = true;
+      }
+    }
+    push();
+    return tokens;
+  }
+
+  private async simple(command: SimpleCommand): Promise<number> {
+    const outBefore = this.stdout.length;
+    const errBefore = this.stderr.length;
+    const status = await this.exec(command.argv);
+
+    const out = this.stdout.slice(outBefore);
+    const err = this.stderr.slice(errBefore);
+    if (command.stderr === 'stdout') {
+      this.stderr = this.stderr.slice(0, errBefore);
+      this.stdout = this.stdout.slice(0, outBefore) + out + err;
+    } else if (command.stderr) {
+      this.stderr = this.stderr.slice(0, errBefore);
+      this.write(command.stderr.path, Buffer.from(err), command.stderr.append);
+    }
+    if (command.stdout) {
+      const captured = this.stdout.slice(outBefore);
+      this.stdout = this.stdout.slice(0, outBefore);
+      if (!this.write(command.stdout.path, Buffer.from(captured), command.stdout.append)) return 1;
+    }
+    return status;
+  }
+
+  private async exec(argv: string[]): Promise<number> {
+    if (this.signal?.aborted) {
+      throw new ExitSignal(143);
+    }
+    for (const handler of this.handlers) {
+      const result = await handler({
+        instance: this.instance,
+        command: argv,
+        cwd: this.cwd,
+        env: this.env,
+        stdin: this.stdin,
+      });
+      if (result) {
+        this.stdin = '';
+        this.stdout += result.stdout;
+        this.stderr += result.stderr;
+        return result.exitCode;
+      }
+    }
+
+    const [cmd, ...rest] = argv;
+    const flags = new Set(rest.filter((a) => /^-\w+$/.test(a)).flatMap((a) => a.slice(1).split('')));
+    const operands = rest.filter((a) => !/^-\w+$/.test(a));
+
+    switch (cmd) {
+      case 'sh':
+      case 'bash': {
+        const saved = this.args;
+        try {
+          if (rest[0] === '-c') {
+            this.args = rest.length > 2 ? rest.slice(2) : [cmd];
+            return await this.script(rest[1] ?? '');
+          }
+          const file = rest[0] ? this.file(rest[0]) : undefined;
+          if (!file || file.type !== 'file') {
+            this.stderr += `${cmd}: ${rest[0]}: No such file or directory\n`;
+            return 127;
+          }
+          this.args = rest;
+          return await this.script(file.content.toString('utf8'));
+        } finally {
+          this.args = saved;
+        }
+      }
+      case 'exit':
+        throw new ExitSignal(Number(rest[0] ?? this.status));
+      case 'sleep': {
+        const signal = this.signal;
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, Number(rest[0] ?? 0) * 1000);
+          signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+          });
+        });
+        return 0;
+      }
+      case 'true':
+        return 0;
+      case 'false':
+        return 1;
+      case 'cd': {
+        const target = this.resolve(rest[0] ?? '/root');
+        if (this.instance.files.get(target)?.type !== 'directory') {
+          this.stderr += `sh: cd: ${rest[0]}: No such file or directory\n`;
+          return 2;
+        }
+        this.cwd = target;
+        return 0;
+      }
+      case 'pwd':
+        this.stdout += `${this.cwd}\n`;
+        return 0;
+      case 'echo': {
+        const newline = rest[0] !== '-n';
+        this.stdout += (newline ? rest : rest.slice(1)).join(' ') + (newline ? '\n' : '');
+        return 0;
+      }
+      case 'cat': {
+        let status = 0;
+        if (operands.length === 0) {
+          this.stdout += this.consumeStdin();
+        }
+        for (const p of operands) {
+          const file = this.file(p);
+          if (!file) {
+            this.stderr += `cat: ${p}: No such file or directory\n`;
+            status = 1;
+          } else if (file.type === 'directory') {
+            this.stderr += `cat: ${p}: Is a directory\n`;
+            status = 1;
+          } else {
+            this.stdout += file.content.toString('utf8');
+          }
+        }
+        return status;
+      }
+      case 'touch': {
+        for (const p of operands) {
+          const file = this.file(p);
+          if (file) file.mtime = new Date();
+          else if (!this.write(p, Buffer.alloc(0), false)) return 1;
+        }
+        return 0;
+      }
+      case 'mkdir': {
+        const modeIdx = rest.indexOf('-m');
+        const mode = modeIdx >= 0 ? parseInt(rest[modeIdx + 1] ?? '755', 8) : 0o755;
+        const paths = rest.filter((a, i) => !a.startsWith('-') && (modeIdx < 0 || i !== modeIdx + 1));
+        for (const p of paths) {
+          const target = this.resolve(p);
+          const chain = flags.has('p') ? target.split('/').filter(Boolean).map((_, i, all) => '/' + all.slice(0, i + 1).join('/')) : [target];
+          for (const dir of chain) {
+            const existing = this.instance.files.get(dir);
+            if (existing) {
+              if (!flags.has('p') || existing.type !== 'directory') {
+                this.stderr += `mkdir: cannot create directory '${p}': File exists\n`;
+                return 1;
+              }
+              continue;
+            }
+            if (this.instance.files.get(path.posix.dirname(dir))?.type !== 'directory') {
+              this.stderr += `mkdir: cannot create directory '${p}': No such file or directory\n`;
+              return 1;
+            }
+            this.instance.files.set(dir, { type: 'directory', content: Buffer.alloc(0), mode, uid: 0, gid: 0, mtime: new Date() });
+          }
+        }
+        return 0;
+      }
+      case 'ls': {
+        const target = this.resolve(operands[0] ?? '.');
+        const entry = this.instance.files.get(target);
+        if (!entry) {
+          this.stderr += `ls: cannot access '${operands[0]}': No such file or directory\n`;
+          return 2;
+        }
+        if (entry.type !== 'directory') {
+          this.stdout += `${operands[0]}\n`;
+          return 0;
+        }
+        const prefix = target === '/' ? '/' : `${target}/`;
+        const names = [...this.instance.files.keys()]
+          .filter((p) => p !== target && p.startsWith(prefix) && !p.slice(prefix.length).includes('/'))
+          .map((p) => p.slice(prefix.length))
+          .filter((n) => flags.has('a') || !n.startsWith('.'))
+          .sort();
+        this.stdout += names.map((n) => `${n}\n`).join('');
+        return 0;
+      }
+      case 'test':
+      case '[': {
+        const args = cmd === '[' ? rest.slice(0, -1) : rest;
+        const negate = args[0] === '!';
+        const [op, p] = negate ? args.slice(1) : args;
+        const file = p ? this.file(p) : undefined;
+        let ok = false;
+        if (op === '-e') ok = !!file;
+        else if (op === '-f') ok = file?.type === 'file';
+        else if (op === '-d') ok = file?.type === 'directory';
+        else if (op === '-s') ok = !!file && file.content.length > 0;
+        return ok !== negate ? 0 : 1;
+      }
+      case 'stat': {
+        const fmtIdx = rest.indexOf('--printf');
+        const fmt = fmtIdx >= 0 ? rest[fmtIdx + 1] ?? '' : '%n\\n';
+        const p = rest.filter((_, i) => i !== fmtIdx && i !== fmtIdx + 1)[0] ?? '';
+        const file = this.file(p);
+        if (!file) {
+          this.stderr += `stat: cannot statx '${p}': No such file or directory\n`;
+          return 1;
+        }
+        const kinds = { file: 'regular file', directory: 'directory', symlink: 'symbolic link' };
+        const values: Record<string, string> = {
+          n: p,
+          F: file.content.length === 0 && file.type === 'file' ? 'regular empty file' : kinds[file.type],
+          s: String(file.type === 'directory' ? 4096 : file.content.length),
+          a: file.mode.toString(8),
+          u: String(file.uid),
+          g: String(file.gid),
+          Y: String(Math.floor(file.mtime.getTime() / 1000)),
+        };
+        this.stdout += fmt.replace(/\\n/g, '\n').replace(/%(\w)/g, (_, k: string) => values[k] ?? '');
+        return 0;
+      }
+      case 'rm': {
+        let status = 0;
+        for (const p of operands) {
+          const target = this.resolve(p);
+          const file = this.instance.files.get(target);
+          if (!file) {
+            if (!flags.has('f')) {
+              this.stderr += `rm: cannot remove '${p}': No such file or directory\n`;
+              status = 1;
+            }
+            continue;
+          }
+          if (file.type === 'directory' && !flags.has('r') && !flags.has('R')) {
+            this.stderr += `rm: cannot remove '${p}': Is a directory\n`;
+            status = 1;
+            continue;
+          }
+          for (const key of [...this.instance.files.keys()]) {
+            if (key === target || key.startsWith(`${target}/`)) this.instance.files.delete(key);
+          }
+        }
+        return status;
+      }
+      case 'chmod': {
+        const file = operands[1] ? this.file(operands[1]) : undefined;
+        if (!file || !operands[0]) {
+          this.stderr += `chmod: cannot access '${operands[1]}': No such file or directory\n`;
+          return 1;
+        }
+        file.mode = parseInt(operands[0], 8);
+        return 0;
+      }
+      case 'chown': {
+        const file = operands[1] ? this.file(operands[1]) : undefined;
+        if (!file || !operands[0]) {
+          this.stderr += `chown: cannot access '${operands[1]}': No such file or directory\n`;
+          return 1;
+        }
+        const [user, group] = operands[0].split(':');
+        file.uid = /^\d+$/.test(user ?? '') ? Number(user) : 0;
+        file.gid = /^\d+$/.test(group ?? '') ? Number(group) : file.uid;
+        return 0;
+      }
+    }
+
+    this.stderr += `sh: 1: ${cmd}: not found\n`;
+    return 127;
+  }
+}
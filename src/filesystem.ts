@@ -1,40 +1,108 @@
-import * as client from './client';
-import type { FileStat, WriteOptions, MkdirOptions, RmOptions } from './types';
+import * as fs from 'fs/promises';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import type { IncusBackend } from './backend';
+import type {
+  FileContent,
+  FileEncoding,
+  FileStat,
+  FileWatchEvent,
+  FileWatcher,
+  WatchOptions,
+  WriteOptions,
+  MkdirOptions,
+  RmOptions,
+  TransferOptions,
+} from './types';
 import { CommandError } from './errors';
+import { createIgnoreMatcher, finalIgnorePatterns } from './ignore';
+import { packTar, unpackTar } from './tar';
+import type { TarEntry } from './tar';
 
-export class FileSystem {
-  constructor(private sandboxName: string) {}
+async function toBytes(content: FileContent): Promise<Uint8Array> {
+  if (typeof content === 'string') {
+    return Buffer.from(content, 'utf8');
+  }
+  if (content instanceof Uint8Array) {
+    return content;
+  }
+  return new Uint8Array(await new Response(content).arrayBuffer());
+}
 
-  async readFile(path: string, encoding: 'utf8' | 'base64' = 'utf8'): Promise<string> {
-    const result = await client.execInInstance(this.sandboxName, ['cat', path]);
-    if (result.exitCode !== 0) {
-      throw new CommandError(`Failed to read file ${path}: ${result.stderr}`);
+export async function collectEntries(localDir: string, options?: TransferOptions): Promise<TarEntry[]> {
+  const ignored = createIgnoreMatcher(options?.ignore);
+  const entries: TarEntry[] = [];
+  const visited = new Set<string>();
+
+  const walk = async (dir: string): Promise<void> => {
+    if (options?.followSymlinks) {
+      const real = await fs.realpath(dir);
+      if (visited.has(real)) return;
+      visited.add(real);
     }
 
-    if (encoding === 'base64') {
-      return Buffer.from(result.stdout).toString('base64');
+    for (const name of (await fs.readdir(dir)).sort()) {
+      const full = join(dir, name);
+      const rel = relative(localDir, full).split('\\').join('/');
+      const stat = options?.followSymlinks ? await fs.stat(full).catch(() => fs.lstat(full)) : await fs.lstat(full);
+      if (ignored(rel, stat.isDirectory())) continue;
+
+      if (stat.isDirectory()) {
+        entries.push({ path: rel, type: 'directory', mode: stat.mode, mtime: stat.mtime });
+        await walk(full);
+      } else if (stat.isSymbolicLink()) {
+        entries.push({ path: rel, type: 'symlink', mode: stat.mode, mtime: stat.mtime, linkname: await fs.readlink(full) });
+      } else if (stat.isFile()) {
+        entries.push({ path: rel, type: 'file', mode: stat.mode, mtime: stat.mtime, content: await fs.readFile(full) });
+      }
     }
-    return result.stdout;
-  }
+  };
 
-  async writeFile(path: string, content: string, options?: WriteOptions): Promise<void> {
-    const fs = await import('fs/promises');
-    const tempFile = `/tmp/incus-sdk-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  await walk(localDir);
+  return entries;
+}
 
-    await fs.writeFile(tempFile, content);
+/**
+ * The first symlink among the directories from `root` down to `dir`, relative
+ * to `root`, if any. Directories seen to be real are remembered in `checked`.
+ */
+async function symlinkOnPath(root: string, dir: string, checked: Set<string>): Promise<string | null> {
+  let current = root;
+  for (const part of relative(root, dir).split(sep).filter(Boolean)) {
+    current = join(current, part);
+    if (checked.has(current)) continue;
+    const stat = await fs.lstat(current).catch(() => null);
+    if (stat?.isSymbolicLink()) return relative(root, current);
+    if (stat) checked.add(current);
+  }
+  return null;
+}
 
-    try {
-      await client.pushFile(this.sandboxName, tempFile, path);
+export class FileSystem {
+  constructor(
+    private sandboxName: string,
+    private backend: IncusBackend
+  ) {}
 
-      if (options?.mode) {
-        await client.execInInstance(this.sandboxName, ['chmod', options.mode, path]);
-      }
+  async readFile(path: string, encoding?: 'utf8' | 'base64'): Promise<string>;
+  async readFile(path: string, encoding: 'bytes'): Promise<Uint8Array>;
+  async readFile(path: string, encoding: FileEncoding = 'utf8'): Promise<string | Uint8Array> {
+    const content = await this.backend.readFile(this.sandboxName, path);
+    if (encoding === 'bytes') {
+      return content;
+    }
+    return Buffer.from(content.buffer, content.byteOffset, content.byteLength).toString(encoding);
+  }
 
-      if (options?.owner) {
-        await client.execInInstance(this.sandboxName, ['chown', options.owner, path]);
+  async writeFile(path: string, content: FileContent, options?: WriteOptions): Promise<void> {
+    await this.backend.writeFile(this.sandboxName, path, await toBytes(content), {
+      mode: options?.mode ? parseInt(options.mode, 8) : undefined,
+    });
+
+    if (options?.owner) {
+      const result = await this.backend.execInInstance(this.sandboxName, ['chown', options.owner, path]);
+      if (result.exitCode !== 0) {
+        throw new CommandError(`Failed to change owner of ${path}: ${result.stderr}`);
       }
-    } finally {
-      await fs.unlink(tempFile).catch(() => {});
     }
   }
 
@@ -48,14 +116,14 @@ export class FileSystem {
     }
     args.push(path);
 
-    const result = await client.execInInstance(this.sandboxName, args);
+    const result = await this.backend.execInInstance(this.sandboxName, args);
     if (result.exitCode !== 0) {
       throw new CommandError(`Failed to create directory ${path}: ${result.stderr}`);
     }
   }
 
   async readdir(path: string): Promise<string[]> {
-    const result = await client.execInInstance(this.sandboxName, ['ls', '-1', path]);
+    const result = await this.backend.execInInstance(this.sandboxName, ['ls', '-1', path]);
     if (result.exitCode !== 0) {
       throw new CommandError(`Failed to read directory ${path}: ${result.stderr}`);
     }
@@ -67,12 +135,12 @@ export class FileSystem {
   }
 
   async exists(path: string): Promise<boolean> {
-    const result = await client.execInInstance(this.sandboxName, ['test', '-e', path]);
+    const result = await this.backend.execInInstance(this.sandboxName, ['test', '-e', path]);
     return result.exitCode === 0;
   }
 
   async stat(path: string): Promise<FileStat> {
-    const result = await client.execInInstance(this.sandboxName, [
+    const result = await this.backend.execInInstance(this.sandboxName, [
       'stat',
       '--printf',
       '%n\\n%F\\n%s\\n%a\\n%u\\n%g\\n%Y',
@@ -114,17 +182,124 @@ export class FileSystem {
     }
     args.push(path);
 
-    const result = await client.execInInstance(this.sandboxName, args);
+    const result = await this.backend.execInInstance(this.sandboxName, args);
     if (result.exitCode !== 0 && !options?.force) {
       throw new CommandError(`Failed to remove ${path}: ${result.stderr}`);
     }
   }
 
+  watch(path: string, options?: WatchOptions): FileWatcher {
+    const queue: FileWatchEvent[] = [];
+    let done = false;
+    let failure: unknown;
+    let wake: (() => void) | null = null;
+
+    const finish = (err?: unknown) => {
+      done = true;
+      failure ??= err;
+      wake?.();
+    };
+
+    const handle = this.backend.watchFiles(this.sandboxName, path, options ?? {}, (event) => {
+      queue.push(event);
+      wake?.();
+    });
+    handle.then((h) => h.done).then(() => finish(), finish);
+
+    const close = () => {
+      handle.then((h) => h.close(), () => {});
+      finish();
+    };
+
+    return {
+      close,
+      async *[Symbol.asyncIterator]() {
+        try {
+          while (true) {
+            const event = queue.shift();
+            if (event) {
+              yield event;
+              continue;
+            }
+            if (done) {
+              if (failure) throw failure;
+              return;
+            }
+            await new Promise<void>((resolve) => (wake = resolve));
+            wake = null;
+          }
+        } finally {
+          close();
+        }
+      },
+    };
+  }
+
   async push(localPath: string, remotePath: string): Promise<void> {
-    await client.pushFile(this.sandboxName, localPath, remotePath);
+    await this.backend.pushFile(this.sandboxName, localPath, remotePath);
   }
 
   async pull(remotePath: string, localPath: string): Promise<void> {
-    await client.pullFile(this.sandboxName, remotePath, localPath);
+    await this.backend.pullFile(this.sandboxName, remotePath, localPath);
+  }
+
+  async uploadDir(localDir: string, remoteDir: string, options?: TransferOptions): Promise<void> {
+    const stat = await fs.stat(localDir).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new CommandError(`Failed to upload ${localDir}: not a directory`);
+    }
+
+    const archive = packTar(await collectEntries(localDir, options));
+    await this.backend.uploadArchive(this.sandboxName, remoteDir, archive, { timeout: options?.timeout ?? 0 });
+  }
+
+  async downloadDir(remoteDir: string, localDir: string, options?: TransferOptions): Promise<void> {
+    const archive = await this.backend.downloadArchive(this.sandboxName, remoteDir, {
+      dereference: options?.followSymlinks,
+      // Ignored trees like node_modules are pruned inside the sandbox.
+      exclude: finalIgnorePatterns(options?.ignore),
+      timeout: options?.timeout ?? 0,
+    });
+    const ignored = createIgnoreMatcher(options?.ignore);
+    const root = resolve(localDir);
+    const directories: TarEntry[] = [];
+    const checked = new Set<string>();
+
+    await fs.mkdir(root, { recursive: true });
+    for (const entry of unpackTar(archive)) {
+      if (entry.path === '.' || ignored(entry.path, entry.type === 'directory')) continue;
+
+      const target = resolve(root, entry.path);
+      const rel = relative(root, target);
+      if (rel.startsWith('..') || isAbsolute(rel)) {
+        throw new CommandError(`Failed to download ${remoteDir}: entry ${entry.path} escapes ${localDir}`);
+      }
+      // The archive comes from inside the sandbox, so a symlink it created
+      // earlier (or one already in localDir) must not be written through.
+      const through = await symlinkOnPath(root, entry.type === 'directory' ? target : dirname(target), checked);
+      if (through) {
+        throw new CommandError(`Failed to download ${remoteDir}: entry ${entry.path} passes through symlink ${through}`);
+      }
+
+      await fs.mkdir(dirname(target), { recursive: true });
+      if (entry.type === 'directory') {
+        await fs.mkdir(target, { recursive: true });
+        directories.push({ ...entry, path: target });
+      } else if (entry.type === 'symlink') {
+        await fs.rm(target, { force: true });
+        await fs.symlink(entry.linkname ?? '', target);
+      } else {
+        if ((await fs.lstat(target).catch(() => null))?.isSymbolicLink()) {
+          await fs.rm(target);
+        }
+        await fs.writeFile(target, entry.content ?? new Uint8Array(), { mode: entry.mode & 0o7777 });
+        await fs.chmod(target, entry.mode & 0o7777);
+      }
+    }
+
+    // Applied last so read-only directories can still be filled in.
+    for (const dir of directories.reverse()) {
+      await fs.chmod(dir.path, dir.mode & 0o7777);
+    }
   }
 }
@@ -0,0 +1,190 @@
+import http from 'http';
+import net from 'net';
+import { getBackend } from './backend';
+import type { IncusBackend } from './backend';
+import type { PreviewGateway, PreviewGatewayOptions, SandboxInfo } from './types';
+
+interface Route {
+  sandbox: string;
+  port: number;
+}
+
+type Failure = { ok: false; status: number; title: string; detail: string };
+type Target = { ok: true; host: string; port: number } | Failure;
+
+const HOP_BY_HOP = ['connection', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'upgrade', 'te', 'trailer'];
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function errorPage(title: string, detail: string): string {
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="font-family: sans-serif; margin: 4rem auto; max-width: 40rem">
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(detail)}</p>
+<p><small>isb preview gateway</small></p>
+</body></html>
+`;
+}
+
+/** `3000-my-box.localhost:8080` → `{ port: 3000, sandbox: 'my-box' }`. */
+export function parsePreviewHost(hostHeader: string | undefined, domain: string): Route | null {
+  const hostname = (hostHeader ?? '').replace(/:\d+$/, '').toLowerCase();
+  const suffix = `.${domain.toLowerCase()}`;
+  if (!hostname.endsWith(suffix)) return null;
+  const match = hostname.slice(0, -suffix.length).match(/^(\d{1,5})-([a-z0-9][a-z0-9-]*)$/);
+  if (!match) return null;
+  const port = Number(match[1]);
+  return port > 0 && port < 65536 ? { port, sandbox: match[2]! } : null;
+}
+
+/**
+ * Starts a reverse proxy that routes `http://<port>-<sandbox>.<domain>:<gw>` to
+ * `<port>` on the sandbox's first IPv4 address, WebSocket upgrades included.
+ * Addresses come from the same instance query as `sandbox.info()`, cached
+ * briefly so asset-heavy pages do not hit Incus once per request.
+ */
+export async function createPreviewGateway(
+  options?: PreviewGatewayOptions,
+  backend: IncusBackend = getBackend()
+): Promise<PreviewGateway> {
+  const domain = options?.domain ?? 'localhost';
+  const cacheTtl = options?.cacheTtl ?? 2000;
+  const cache = new Map<string, { info: SandboxInfo | null; at: number }>();
+
+  const lookup = async (name: string): Promise<SandboxInfo | null> => {
+    const cached = cache.get(name);
+    if (cached && Date.now() - cached.at < cacheTtl) return cached.info;
+    const info = await backend.getInstanceInfo(name);
+    cache.set(name, { info, at: Date.now() });
+    return info;
+  };
+
+  const resolve = async (hostHeader: string | undefined): Promise<Target> => {
+    const route = parsePreviewHost(hostHeader, domain);
+    if (!route) {
+      return {
+        ok: false,
+        status: 404,
+        title: 'Unknown preview address',
+        detail: `Use http://<port>-<sandbox>.${domain}:${gateway.port}/ to reach a port in a sandbox.`,
+      };
+    }
+    const info = await lookup(route.sandbox);
+    if (!info) {
+      return { ok: false, status: 404, title: 'Sandbox not found', detail: `There is no sandbox named '${route.sandbox}'.` };
+    }
+    if (info.state !== 'running') {
+      return { ok: false, status: 502, title: 'Sandbox not running', detail: `Sandbox '${route.sandbox}' is ${info.state}.` };
+    }
+    const address = info.ipv4[0];
+    if (!address) {
+      return {
+        ok: false,
+        status: 502,
+        title: 'Sandbox has no address',
+        detail: `Sandbox '${route.sandbox}' is running but has no IPv4 address (is its network policy 'none'?).`,
+      };
+    }
+    return { ok: true, host: address, port: route.port };
+  };
+
+  const unreachable = (target: { host: string; port: number }, hostHeader: string | undefined): Failure => ({
+    ok: false,
+    status: 502,
+    title: 'Nothing is listening',
+    detail: `Could not connect to port ${target.port} in ${parsePreviewHost(hostHeader, domain)?.sandbox ?? 'the sandbox'} (${target.host}).`,
+  });
+
+  const sendError = (res: http.ServerResponse, target: Failure) => {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.writeHead(target.status, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(errorPage(target.title, target.detail));
+  };
+
+  const server = http.createServer(async (req, res) => {
+    let target: Target;
+    try {
+      target = await resolve(req.headers.host);
+    } catch (err) {
+      target = { ok: false, status: 502, title: 'Incus unavailable', detail: (err as Error).message };
+    }
+    if (!target.ok) return sendError(res, target);
+
+    const headers = { ...req.headers };
+    for (const header of HOP_BY_HOP) delete headers[header];
+    headers['x-forwarded-host'] = req.headers.host;
+    headers['x-forwarded-proto'] = 'http';
+
+    const upstream = http.request(
+      { host: target.host, port: target.port, method: req.method, path: req.url, headers },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.statusMessage, upstreamRes.headers);
+        upstreamRes.pipe(res);
+      }
+    );
+    const resolved = target;
+    upstream.on('error', () => sendError(res, unreachable(resolved, req.headers.host)));
+    req.pipe(upstream);
+  });
+
+  server.on('upgrade', async (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+    socket.on('error', () => socket.destroy());
+    let target: Target;
+    try {
+      target = await resolve(req.headers.host);
+    } catch {
+      target = { ok: false, status: 502, title: 'Incus unavailable', detail: '' };
+    }
+    if (!target.ok) {
+      socket.end(`HTTP/1.1 ${target.status} ${target.title}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+      return;
+    }
+
+    const upstream = net.connect(target.port, target.host, () => {
+      const lines = [`${req.method} ${req.url} HTTP/${req.httpVersion}`];
+      for (let i = 0; i < req.rawHeaders.length; i += 2) {
+        lines.push(`${req.rawHeaders[i]}: ${req.rawHeaders[i + 1]}`);
+      }
+      upstream.write(`${lines.join('\r\n')}\r\n\r\n`);
+      if (head.length > 0) upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on('error', () => {
+      if (socket.writable && upstream.bytesRead === 0) {
+        socket.end('HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+      } else {
+        socket.destroy();
+      }
+    });
+    socket.on('close', () => upstream.destroy());
+  });
+
+  const host = options?.host ?? '127.0.0.1';
+  await new Promise<void>((resolveListen, reject) => {
+    server.once('error', reject);
+    server.listen(options?.port ?? 8080, host, () => {
+      server.off('error', reject);
+      resolveListen();
+    });
+  });
+
+  const address = server.address() as net.AddressInfo;
+  const gateway: PreviewGateway = {
+    port: address.port,
+    host,
+    urlFor: (sandbox, port) => `http://${port}-${sandbox}.${domain}:${address.port}/`,
+    close: () =>
+      new Promise<void>((resolveClose) => {
+        server.close(() => resolveClose());
+        server.closeAllConnections();
+      }),
+  };
+  return gateway;
+}
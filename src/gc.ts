@@ -0,0 +1,78 @@
+import { hostname } from 'os';
+import type { IncusBackend } from './backend';
+import type { GcCandidate, GcOptions, GcResult, SandboxInfo } from './types';
+
+const DEFAULT_ABANDONED_AFTER = 15 * 60 * 1000;
+
+/** Prefix of names generated by `sandbox.create`; only these are ever considered abandoned. */
+export const GENERATED_NAME_PREFIX = 'sandbox-';
+
+/** Whether `createdBy` (`host:pid`) names a process on this host that is still running. */
+function creatorAlive(createdBy: string | undefined): boolean {
+  const idx = createdBy?.lastIndexOf(':') ?? -1;
+  if (!createdBy || idx < 0 || createdBy.slice(0, idx) !== hostname()) {
+    return false;
+  }
+  const pid = Number(createdBy.slice(idx + 1));
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function classify(info: SandboxInfo, now: number, abandonedAfter: number): GcCandidate['reason'] | null {
+  if (info.expiresAt && info.expiresAt.getTime() <= now) {
+    return 'expired';
+  }
+  if (!info.name.startsWith(GENERATED_NAME_PREFIX) || info.expiresAt || info.persistent) {
+    return null;
+  }
+  const lastSeen = info.heartbeatAt ?? info.createdAt;
+  if (now - lastSeen.getTime() <= abandonedAfter) {
+    return null;
+  }
+  // A stale heartbeat from a creator that is still running means it couldn't write, not that it's gone.
+  return creatorAlive(info.createdBy) ? null : 'abandoned';
+}
+
+export async function collectGarbage(
+  backend: IncusBackend,
+  options?: GcOptions,
+  keep: Set<string> = new Set()
+): Promise<GcResult> {
+  const now = Date.now();
+  const abandonedAfter = options?.abandonedAfter ?? DEFAULT_ABANDONED_AFTER;
+  const instances = await backend.listInstances({ prefix: options?.prefix });
+
+  const candidates: GcCandidate[] = [];
+  for (const info of instances) {
+    const reason = keep.has(info.name) ? null : classify(info, now, abandonedAfter);
+    if (reason) {
+      candidates.push({ name: info.name, reason });
+    }
+  }
+
+  const result: GcResult = { dryRun: options?.dryRun ?? false, removed: [], failed: [] };
+  if (result.dryRun) {
+    result.removed = candidates;
+    return result;
+  }
+
+  for (const candidate of candidates) {
+    try {
+      for (const snapshot of await backend.listSnapshots(candidate.name)) {
+        await backend.deleteSnapshot(candidate.name, snapshot.name);
+      }
+      await backend.deleteInstance(candidate.name, true);
+      result.removed.push(candidate);
+    } catch (err) {
+      result.failed.push({ ...candidate, error: (err as Error).message });
+    }
+  }
+  return result;
+}
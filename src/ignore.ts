@@ -0,0 +1,116 @@
+/** One parsed pattern line. */
+export interface IgnorePattern {
+  /** The glob, without a leading `/`, trailing `/` or `!` */
+  glob: string;
+  negate: boolean;
+  /** Matched against the whole relative path rather than any one name in it */
+  anchored: boolean;
+  directoryOnly: boolean;
+}
+
+interface IgnoreRule extends IgnorePattern {
+  regex: RegExp;
+}
+
+function globToRegex(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === '*' && glob[i + 1] === '*') {
+      const slashAfter = glob[i + 2] === '/';
+      const slashBefore = i === 0 || glob[i - 1] === '/';
+      if (slashBefore && slashAfter) {
+        out += '(?:.*/)?';
+        i += 2;
+      } else {
+        out += '.*';
+        i++;
+      }
+    } else if (ch === '*') {
+      out += '[^/]*';
+    } else if (ch === '?') {
+      out += '[^/]';
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        out += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        out += `[${body}]`;
+        i = end;
+      }
+    } else if (ch === '\\' && i + 1 < glob.length) {
+      out += glob[++i]!.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      out += ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return out;
+}
+
+export function parseIgnorePattern(line: string): IgnorePattern | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (pattern === '' || pattern.startsWith('#')) return null;
+
+  const negate = pattern.startsWith('!');
+  if (negate) pattern = pattern.slice(1);
+  if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) pattern = pattern.slice(1);
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) pattern = pattern.replace(/\/+$/, '');
+
+  // A slash anywhere but the end anchors the pattern to the root.
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (pattern === '') return null;
+
+  return { glob: pattern, negate, anchored, directoryOnly };
+}
+
+function parseRule(line: string): IgnoreRule | null {
+  const pattern = parseIgnorePattern(line);
+  if (!pattern) return null;
+  const prefix = pattern.anchored ? '^' : '^(?:.*/)?';
+  return { ...pattern, regex: new RegExp(`${prefix}${globToRegex(pattern.glob)}$`) };
+}
+
+function splitLines(patterns: string[]): string[] {
+  return patterns.flatMap((p) => p.split(/\r?\n/));
+}
+
+/**
+ * The pattern lines after the last `!` negation. Nothing can re-include what
+ * they match, so a transfer may prune those paths at the source.
+ */
+export function finalIgnorePatterns(patterns: string[] = []): string[] {
+  const lines = splitLines(patterns);
+  const last = lines.findLastIndex((line) => parseIgnorePattern(line)?.negate);
+  return lines.slice(last + 1).filter((line) => parseIgnorePattern(line) !== null);
+}
+
+/**
+ * Compiles `.gitignore`-style patterns into a predicate over slash-separated
+ * paths relative to the transfer root. A path is ignored when it, or any
+ * directory above it, matches; later patterns and `!` negations win.
+ */
+export function createIgnoreMatcher(patterns: string[] = []): (path: string, isDirectory: boolean) => boolean {
+  const rules = splitLines(patterns).map(parseRule).filter((r): r is IgnoreRule => r !== null);
+
+  const matches = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(path)) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+
+  return (path, isDirectory) => {
+    if (rules.length === 0) return false;
+    const parts = path.split('/').filter(Boolean);
+    for (let i = 1; i < parts.length; i++) {
+      if (matches(parts.slice(0, i).join('/'), true)) return true;
+    }
+    return matches(parts.join('/'), isDirectory);
+  };
+}
@@ -0,0 +1,58 @@
+import { buildImage } from './build';
+import { ImageNotFoundError } from './errors';
+import type { IncusBackend } from './backend';
+import type { IncusClient } from './incus';
+import type { BuildOptions, CopyImageOptions, ImageInfo, ImageRecipe } from './types';
+
+async function resolveImage(backend: IncusBackend, ref: string): Promise<ImageInfo> {
+  const image = await backend.getImage(ref);
+  if (!image) {
+    throw new ImageNotFoundError(ref);
+  }
+  return image;
+}
+
+/** The local image store of a client. Images are referenced by alias or fingerprint. */
+export function createImagesApi(client: IncusClient) {
+  return {
+    async list(): Promise<ImageInfo[]> {
+      return client.getBackend().listImages();
+    },
+
+    async get(ref: string): Promise<ImageInfo> {
+      return resolveImage(client.getBackend(), ref);
+    },
+
+    /** Points `alias` at an image, moving it off any image it named before. */
+    async alias(ref: string, alias: string): Promise<void> {
+      const backend = client.getBackend();
+      const image = await resolveImage(backend, ref);
+      await backend.setImageAlias(alias, image.fingerprint);
+    },
+
+    async delete(ref: string): Promise<void> {
+      const backend = client.getBackend();
+      const image = await resolveImage(backend, ref);
+      await backend.deleteImage(image.fingerprint);
+    },
+
+    /**
+     * Downloads `<remote>:<alias>` (e.g. `images:debian/12`) so later launches
+     * skip the download. The copy is aliased as the remote alias unless
+     * `alias` says otherwise.
+     */
+    async copyFromRemote(image: string, options?: CopyImageOptions): Promise<ImageInfo> {
+      const backend = client.getBackend();
+      const fingerprint = await backend.copyImage(image, { autoUpdate: options?.autoUpdate });
+      await backend.setImageAlias(options?.alias ?? image.slice(image.indexOf(':') + 1), fingerprint);
+      return resolveImage(backend, fingerprint);
+    },
+
+    /** Builds and publishes an image from a recipe object or a recipe file (YAML or JSON). */
+    async build(recipe: ImageRecipe | string, options?: BuildOptions): Promise<ImageInfo> {
+      return buildImage(client, recipe, options);
+    },
+  };
+}
+
+export type ImagesApi = ReturnType<typeof createImagesApi>;
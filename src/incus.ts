@@ -0,0 +1,67 @@
+import { SocketBackend } from './client';
+import { setDefaultClient } from './backend';
+import type { IncusBackend } from './backend';
+import { createSandboxApi } from './sandbox';
+import type { SandboxApi } from './sandbox';
+import { createImagesApi } from './images';
+import type { ImagesApi } from './images';
+import { createPoolApi } from './pool';
+import type { PoolApi } from './pool';
+import { createProjectsApi } from './projects';
+import type { ProjectsApi } from './projects';
+import { createPreviewGateway } from './gateway';
+import { DEFAULT_CONFIG } from './types';
+import type { IncusConfig, PreviewGateway, PreviewGatewayOptions } from './types';
+
+/**
+ * A connection to one Incus daemon, with its own config and backend. Sandboxes
+ * it creates or looks up stay bound to its backend, so one process can drive
+ * several daemons through several clients.
+ */
+export class IncusClient {
+  readonly sandbox: SandboxApi;
+  readonly images: ImagesApi;
+  readonly pool: PoolApi;
+  readonly projects: ProjectsApi;
+
+  private readonly socket: SocketBackend;
+  private backend: IncusBackend;
+
+  constructor(config?: IncusConfig, backend?: IncusBackend) {
+    this.socket = new SocketBackend(config);
+    this.backend = backend ?? this.socket;
+    this.sandbox = createSandboxApi(this);
+    this.images = createImagesApi(this);
+    this.pool = createPoolApi(this);
+    this.projects = createProjectsApi(this);
+  }
+
+  setConfig(config: IncusConfig): void {
+    this.socket.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  getConfig(): Required<IncusConfig> {
+    return this.socket.config;
+  }
+
+  /** Swaps the backend, e.g. for a `FakeIncusBackend` in tests. Existing sandboxes keep theirs. */
+  setBackend(backend: IncusBackend): void {
+    this.backend = backend;
+  }
+
+  getBackend(): IncusBackend {
+    return this.backend;
+  }
+
+  checkIncusAvailable(): Promise<boolean> {
+    return this.backend.checkIncusAvailable();
+  }
+
+  createPreviewGateway(options?: PreviewGatewayOptions): Promise<PreviewGateway> {
+    return createPreviewGateway(options, this.backend);
+  }
+}
+
+/** The default client, configured through `incus.setConfig()`. */
+export const incus = new IncusClient();
+setDefaultClient(incus);
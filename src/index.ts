@@ -1,15 +1,19 @@
-import { sandbox, Sandbox } from './sandbox';
-import { setConfig, getConfig, checkIncusAvailable } from './client';
-import type { IncusConfig } from './types';
+import { Sandbox } from './sandbox';
+import { IncusClient, incus } from './incus';
+import { createPreviewGateway } from './gateway';
+import { SandboxPool } from './pool';
 
-export const incus = {
-  sandbox,
-  setConfig,
-  getConfig,
-  checkIncusAvailable,
-};
-
-export { Sandbox };
+export { incus, IncusClient };
+export { Sandbox, SandboxPool, createPreviewGateway };
+export type { SandboxApi } from './sandbox';
+export type { ImagesApi } from './images';
+export type { PoolApi, PoolOptions, PoolStats } from './pool';
+export type { ProjectsApi } from './projects';
+export { SandboxProcess } from './process';
+export { SocketBackend } from './client';
+export { FakeIncusBackend } from './fake';
+export type { FakeExecContext, FakeExecHandler, FakeFile, FakeImage, FakeInstance, FakeIncusOptions } from './fake';
+export type { IncusBackend, ExecResult, ExecOptions, InstanceSummary, DeviceConfig } from './backend';
 
 export * from './types';
 export * from './errors';
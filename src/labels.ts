@@ -0,0 +1,95 @@
+import { InvalidArgumentError } from './errors';
+import type { LabelSelector } from './types';
+
+export const LABEL_PREFIX = 'user.label.';
+
+const KEY_PATTERN = /^[A-Za-z0-9]([A-Za-z0-9._/-]*[A-Za-z0-9])?$/;
+
+type Requirement =
+  | { key: string; op: 'in' | 'notin'; values: string[] }
+  | { key: string; op: 'exists' | 'doesnotexist' };
+
+function validateKey(key: string): string {
+  if (!KEY_PATTERN.test(key)) {
+    throw new InvalidArgumentError(`Invalid label key '${key}'`);
+  }
+  return key;
+}
+
+export function labelConfig(labels: Record<string, string> | undefined): Record<string, string> {
+  const config: Record<string, string> = {};
+  for (const [key, value] of Object.entries(labels ?? {})) {
+    config[`${LABEL_PREFIX}${validateKey(key)}`] = value;
+  }
+  return config;
+}
+
+export function readLabels(config: Record<string, string> | undefined): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config ?? {})) {
+    if (key.startsWith(LABEL_PREFIX)) {
+      labels[key.slice(LABEL_PREFIX.length)] = value;
+    }
+  }
+  return labels;
+}
+
+/**
+ * Parses Kubernetes-style selectors: `k=v`, `k==v`, `k!=v`, `k in (a,b)`,
+ * `k notin (a,b)`, `k` and `!k`, joined by commas.
+ */
+export function parseLabelSelector(selector: string): Requirement[] {
+  const requirements: Requirement[] = [];
+  // Commas inside parentheses belong to the value list, not the selector.
+  const parts = selector.match(/[^,(]+(\([^)]*\))?[^,]*/g) ?? [];
+
+  for (const raw of parts) {
+    const part = raw.trim();
+    if (!part) continue;
+
+    let match: RegExpMatchArray | null;
+    if ((match = part.match(/^(\S+)\s+(in|notin)\s*\(([^)]*)\)$/))) {
+      const values = match[3]!.split(',').map((v) => v.trim()).filter(Boolean);
+      requirements.push({ key: validateKey(match[1]!), op: match[2] as 'in' | 'notin', values });
+    } else if ((match = part.match(/^([^!=\s]+)\s*(==|=|!=)\s*(.*)$/))) {
+      requirements.push({ key: validateKey(match[1]!), op: match[2] === '!=' ? 'notin' : 'in', values: [match[3]!.trim()] });
+    } else if ((match = part.match(/^!\s*(\S+)$/))) {
+      requirements.push({ key: validateKey(match[1]!), op: 'doesnotexist' });
+    } else if (KEY_PATTERN.test(part)) {
+      requirements.push({ key: part, op: 'exists' });
+    } else {
+      throw new InvalidArgumentError(`Invalid label selector '${part}'`);
+    }
+  }
+  return requirements;
+}
+
+function toRequirements(selector: LabelSelector): Requirement[] {
+  if (typeof selector === 'string') {
+    return parseLabelSelector(selector);
+  }
+  return Object.entries(selector).map(([key, value]): Requirement => {
+    validateKey(key);
+    if (value === true) return { key, op: 'exists' };
+    if (value === false) return { key, op: 'doesnotexist' };
+    return { key, op: 'in', values: Array.isArray(value) ? value : [value] };
+  });
+}
+
+export function createLabelMatcher(selector: LabelSelector): (labels: Record<string, string>) => boolean {
+  const requirements = toRequirements(selector);
+  return (labels) =>
+    requirements.every((req) => {
+      const value = labels[req.key];
+      switch (req.op) {
+        case 'exists':
+          return value !== undefined;
+        case 'doesnotexist':
+          return value === undefined;
+        case 'in':
+          return value !== undefined && req.values.includes(value);
+        case 'notin':
+          return value === undefined || !req.values.includes(value);
+      }
+    });
+}
@@ -0,0 +1,139 @@
+import { InvalidArgumentError } from './errors';
+import type { DeviceConfig } from './backend';
+import type { SandboxLimits, SandboxType } from './types';
+
+/** Instance config keys, one per scalar limit. */
+const CONFIG_KEYS = {
+  cpu: 'limits.cpu',
+  cpuAllowance: 'limits.cpu.allowance',
+  memory: 'limits.memory',
+  memorySwap: 'limits.memory.swap',
+  processes: 'limits.processes',
+} as const;
+
+const SIZE = /^\d+(\.\d+)?(B|kB|MB|GB|TB|PB|KiB|MiB|GiB|TiB|PiB)$/;
+const RATE = /^\d+(\.\d+)?(bit|kbit|Mbit|Gbit|Tbit)$/;
+const ALLOWANCE = /^(\d+(\.\d+)?%|\d+ms\/\d+ms)$/;
+
+/** Limits Incus only enforces on containers. */
+export const CONTAINER_ONLY_LIMITS: ReadonlyArray<keyof SandboxLimits> = ['cpuAllowance', 'memorySwap', 'processes'];
+
+/** Limits a running VM only picks up after a restart. */
+export const VM_RESTART_LIMITS: ReadonlyArray<keyof SandboxLimits> = ['cpu', 'memory'];
+
+function positiveInteger(field: string, value: number | undefined): void {
+  if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+    throw new InvalidArgumentError(`Invalid ${field} limit '${value}': expected a positive integer`);
+  }
+}
+
+function pattern(field: string, value: string | undefined, regex: RegExp, example: string): void {
+  if (value !== undefined && !regex.test(value)) {
+    throw new InvalidArgumentError(`Invalid ${field} limit '${value}': expected something like '${example}'`);
+  }
+}
+
+/** Rejects malformed values before they reach Incus, whose errors name config keys rather than fields. */
+export function validateLimits(limits: SandboxLimits | undefined, type?: SandboxType): void {
+  if (!limits) return;
+  if (type === 'vm') {
+    const unsupported = CONTAINER_ONLY_LIMITS.filter((field) => limits[field] !== undefined);
+    if (unsupported.length > 0) {
+      throw new InvalidArgumentError(`${unsupported.join(', ')} can only be limited on containers`);
+    }
+  }
+  positiveInteger('cpu', limits.cpu);
+  pattern('cpuAllowance', limits.cpuAllowance, ALLOWANCE, '50%');
+  if (limits.memory !== undefined && !SIZE.test(limits.memory) && !/^\d+%$/.test(limits.memory)) {
+    throw new InvalidArgumentError(`Invalid memory limit '${limits.memory}': expected something like '2GB' or '50%'`);
+  }
+  positiveInteger('processes', limits.processes);
+  pattern('disk', limits.disk, SIZE, '10GB');
+  positiveInteger('diskIops', limits.diskIops);
+  pattern('diskBandwidth', limits.diskBandwidth, SIZE, '50MB');
+  pattern('networkIngress', limits.networkIngress, RATE, '100Mbit');
+  pattern('networkEgress', limits.networkEgress, RATE, '100Mbit');
+  if (limits.diskIops && limits.diskBandwidth) {
+    throw new InvalidArgumentError('Incus applies one disk I/O limit per device; set diskIops or diskBandwidth, not both');
+  }
+}
+
+function findDevice(devices: Record<string, DeviceConfig> | undefined, match: (device: DeviceConfig) => boolean) {
+  return Object.entries(devices ?? {}).find(([, device]) => match(device));
+}
+
+const isRootDisk = (device: DeviceConfig) => device.type === 'disk' && device.path === '/';
+const isNic = (device: DeviceConfig) => device.type === 'nic';
+
+export function limitsConfig(limits: SandboxLimits | undefined): Record<string, string> {
+  const config: Record<string, string> = {};
+  if (limits?.cpu) config[CONFIG_KEYS.cpu] = String(limits.cpu);
+  if (limits?.cpuAllowance) config[CONFIG_KEYS.cpuAllowance] = limits.cpuAllowance;
+  if (limits?.memory) config[CONFIG_KEYS.memory] = limits.memory;
+  if (limits?.memorySwap !== undefined) config[CONFIG_KEYS.memorySwap] = String(limits.memorySwap);
+  if (limits?.processes) config[CONFIG_KEYS.processes] = String(limits.processes);
+  return config;
+}
+
+/**
+ * Disk and network limits live on the root disk and NIC devices, which usually
+ * come from a profile. Incus only lets an instance change them by redefining
+ * the whole device, so the profile's device is copied and the limits layered on.
+ */
+export function limitDevices(
+  limits: SandboxLimits | undefined,
+  profileDevices: Record<string, DeviceConfig>
+): Record<string, DeviceConfig> {
+  const devices: Record<string, DeviceConfig> = {};
+
+  if (limits?.disk || limits?.diskIops || limits?.diskBandwidth) {
+    const root = findDevice(profileDevices, isRootDisk);
+    if (!root) {
+      throw new InvalidArgumentError('Disk limits need a root disk device, but none of the profiles define one');
+    }
+    const [name, device] = root;
+    devices[name] = {
+      ...device,
+      ...(limits.disk ? { size: limits.disk } : {}),
+      ...(limits.diskIops ? { 'limits.max': `${limits.diskIops}iops` } : {}),
+      ...(limits.diskBandwidth ? { 'limits.max': limits.diskBandwidth } : {}),
+    };
+  }
+
+  if (limits?.networkIngress || limits?.networkEgress) {
+    const nic = findDevice(profileDevices, isNic);
+    if (!nic) {
+      throw new InvalidArgumentError('Network limits need a NIC device, but none of the profiles define one');
+    }
+    const [name, device] = nic;
+    devices[name] = {
+      ...device,
+      ...(limits.networkIngress ? { 'limits.ingress': limits.networkIngress } : {}),
+      ...(limits.networkEgress ? { 'limits.egress': limits.networkEgress } : {}),
+    };
+  }
+
+  return devices;
+}
+
+export function readLimits(config: Record<string, string> | undefined, devices?: Record<string, DeviceConfig>): SandboxLimits {
+  const limits: SandboxLimits = {};
+  const cpu = config?.[CONFIG_KEYS.cpu];
+  if (cpu && /^\d+$/.test(cpu)) limits.cpu = Number(cpu);
+  if (config?.[CONFIG_KEYS.cpuAllowance]) limits.cpuAllowance = config[CONFIG_KEYS.cpuAllowance];
+  if (config?.[CONFIG_KEYS.memory]) limits.memory = config[CONFIG_KEYS.memory];
+  if (config?.[CONFIG_KEYS.memorySwap]) limits.memorySwap = config[CONFIG_KEYS.memorySwap] === 'true';
+  const processes = config?.[CONFIG_KEYS.processes];
+  if (processes && /^\d+$/.test(processes)) limits.processes = Number(processes);
+
+  const root = findDevice(devices, isRootDisk)?.[1];
+  if (root?.size) limits.disk = root.size;
+  const io = root?.['limits.max'];
+  if (io?.endsWith('iops')) limits.diskIops = Number(io.slice(0, -4));
+  else if (io) limits.diskBandwidth = io;
+
+  const nic = findDevice(devices, isNic)?.[1];
+  if (nic?.['limits.ingress']) limits.networkIngress = nic['limits.ingress'];
+  if (nic?.['limits.egress']) limits.networkEgress = nic['limits.egress'];
+  return limits;
+}
@@ -0,0 +1,111 @@
+import { hostname } from 'os';
+import { labelConfig, readLabels } from './labels';
+import { readNetworkPolicy } from './network';
+import { PORT_DEVICE_PREFIX } from './ports';
+import type { DeviceConfig } from './backend';
+import type { MountInfo, MountMode, NetworkPolicy } from './types';
+
+/** Instance config keys the SDK records about the sandboxes it creates. */
+export const METADATA_KEYS = {
+  createdBy: 'user.isb.created-by',
+  expiresAt: 'user.isb.expires-at',
+  heartbeat: 'user.isb.heartbeat',
+  persistent: 'user.isb.persistent',
+} as const;
+
+/** Overlay mounts record their target here, keyed by device name. */
+export const OVERLAY_TARGET_PREFIX = 'user.isb.overlay.';
+export const OVERLAY_BASE = '/.overlay-base/';
+
+export interface SandboxMetadata {
+  labels: Record<string, string>;
+  network?: NetworkPolicy;
+  createdBy?: string;
+  expiresAt?: Date;
+  heartbeatAt?: Date;
+  persistent?: boolean;
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export function readMetadata(config: Record<string, string> | undefined): SandboxMetadata {
+  return {
+    labels: readLabels(config),
+    network: readNetworkPolicy(config),
+    createdBy: config?.[METADATA_KEYS.createdBy],
+    expiresAt: parseDate(config?.[METADATA_KEYS.expiresAt]),
+    heartbeatAt: parseDate(config?.[METADATA_KEYS.heartbeat]),
+    persistent: config?.[METADATA_KEYS.persistent] === 'true' || undefined,
+  };
+}
+
+export function creationMetadata(options?: {
+  ttl?: number;
+  expiresAt?: Date;
+  labels?: Record<string, string>;
+  persistent?: boolean;
+}): Record<string, string> {
+  const now = new Date();
+  const config: Record<string, string> = {
+    ...labelConfig(options?.labels),
+    [METADATA_KEYS.createdBy]: `${hostname()}:${process.pid}`,
+    [METADATA_KEYS.heartbeat]: now.toISOString(),
+  };
+
+  const expiresAt = options?.expiresAt ?? (options?.ttl !== undefined ? new Date(now.getTime() + options.ttl) : undefined);
+  if (expiresAt) {
+    config[METADATA_KEYS.expiresAt] = expiresAt.toISOString();
+  }
+  if (options?.persistent) {
+    config[METADATA_KEYS.persistent] = 'true';
+  }
+  return config;
+}
+
+/**
+ * Mounts made by `sandbox.mount`, derived from `mount-*` disk devices. Overlay
+ * targets come from config; older overlays without it get an empty target.
+ */
+export function readMounts(devices: Record<string, DeviceConfig> | undefined, config?: Record<string, string>): MountInfo[] {
+  const mounts: MountInfo[] = [];
+  for (const [device, spec] of Object.entries(devices ?? {})) {
+    if (spec.type !== 'disk' || !device.startsWith('mount-') || !spec.source) continue;
+
+    let mode: MountMode = spec.readonly === 'true' ? 'readonly' : 'readwrite';
+    let target = spec.path ?? '';
+    if (target.startsWith(OVERLAY_BASE)) {
+      mode = 'overlay';
+      target = config?.[`${OVERLAY_TARGET_PREFIX}${device}`] ?? '';
+    }
+    mounts.push({ source: spec.source, target, mode, device });
+  }
+  return mounts;
+}
+
+/**
+ * Turns a fresh copy into a sandbox of its own: new creation metadata (the
+ * source's expiry does not carry over), no forwarded ports, since the source
+ * still holds their host ports, and, unless `keepMounts`, no host mounts.
+ */
+export function prepareFork(
+  instance: { config: Record<string, string>; devices: Record<string, DeviceConfig> },
+  metadata: Record<string, string>,
+  keepMounts: boolean
+): void {
+  delete instance.config[METADATA_KEYS.expiresAt];
+  delete instance.config[METADATA_KEYS.persistent];
+  Object.assign(instance.config, metadata);
+
+  for (const device of Object.keys(instance.devices)) {
+    if (device.startsWith(PORT_DEVICE_PREFIX)) {
+      delete instance.devices[device];
+    } else if (device.startsWith('mount-') && !keepMounts) {
+      delete instance.devices[device];
+      delete instance.config[`${OVERLAY_TARGET_PREFIX}${device}`];
+    }
+  }
+}
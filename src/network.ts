@@ -0,0 +1,145 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { InvalidArgumentError } from './errors';
+import type { DeviceConfig } from './backend';
+import type { NetworkPolicy } from './types';
+
+/** The policy as given, so `info()` can report it back. */
+export const NETWORK_POLICY_KEY = 'user.isb.network';
+/** A NIC the instance defined itself, kept while `'none'` masks it. */
+const MASKED_NIC_KEY = 'user.isb.masked-nic';
+
+/** Prefix of the per-sandbox ACLs that carry egress allowlists. */
+export const NETWORK_ACL_PREFIX = 'isb-';
+
+export interface AclRule {
+  action: 'allow' | 'reject';
+  destination: string;
+  state: 'enabled';
+  description?: string;
+}
+
+/** A policy with hostnames resolved to addresses, ready to become ACL rules. */
+export type ResolvedNetworkPolicy =
+  | { mode: 'none' | 'full'; policy: NetworkPolicy }
+  | { mode: 'restricted'; policy: NetworkPolicy; egress: AclRule[] };
+
+export function networkAclName(sandboxName: string): string {
+  return `${NETWORK_ACL_PREFIX}${sandboxName}`;
+}
+
+async function toCidrs(target: string): Promise<string[]> {
+  const [address, prefix] = target.split('/');
+  const family = isIP(address ?? '');
+  if (family !== 0) {
+    const max = family === 4 ? 32 : 128;
+    if (prefix !== undefined && !(/^\d+$/.test(prefix) && Number(prefix) <= max)) {
+      throw new InvalidArgumentError(`Invalid CIDR '${target}'`);
+    }
+    return [prefix === undefined ? `${address}/${max}` : target];
+  }
+
+  if (prefix !== undefined || !/^[A-Za-z0-9]([A-Za-z0-9.-]*[A-Za-z0-9])?$/.test(target)) {
+    throw new InvalidArgumentError(`Invalid egress target '${target}': expected a CIDR, an IP or a hostname`);
+  }
+  const addresses = await lookup(target, { all: true }).catch(() => {
+    throw new InvalidArgumentError(`Could not resolve egress host '${target}'`);
+  });
+  return addresses.map((a) => `${a.address}/${a.family === 4 ? 32 : 128}`);
+}
+
+/**
+ * Validates a policy and resolves hostnames once, on the host. Sandboxes that
+ * need fresh addresses for a host behind changing IPs should re-apply the policy.
+ */
+export async function resolveNetworkPolicy(policy: NetworkPolicy): Promise<ResolvedNetworkPolicy> {
+  if (policy === 'none' || policy === 'full') {
+    return { mode: policy, policy };
+  }
+  if (typeof policy !== 'object' || !Array.isArray(policy.allowEgress)) {
+    throw new InvalidArgumentError(`Invalid network policy ${JSON.stringify(policy)}`);
+  }
+
+  const egress: AclRule[] = [];
+  // Incus evaluates reject rules before allow rules, so order here is cosmetic.
+  for (const target of policy.denyEgress ?? []) {
+    const cidrs = await toCidrs(target);
+    egress.push({ action: 'reject', destination: cidrs.join(','), state: 'enabled', description: target });
+  }
+  for (const target of policy.allowEgress) {
+    const cidrs = await toCidrs(target);
+    egress.push({ action: 'allow', destination: cidrs.join(','), state: 'enabled', description: target });
+  }
+  return { mode: 'restricted', policy, egress };
+}
+
+export function readNetworkPolicy(config: Record<string, string> | undefined): NetworkPolicy | undefined {
+  const value = config?.[NETWORK_POLICY_KEY];
+  if (!value) return undefined;
+  if (value === 'none' || value === 'full') return value;
+  try {
+    return JSON.parse(value) as NetworkPolicy;
+  } catch {
+    return undefined;
+  }
+}
+
+function findNic(devices: Record<string, DeviceConfig>): [string, DeviceConfig] | undefined {
+  return Object.entries(devices).find(([, device]) => device.type === 'nic');
+}
+
+function sameDevice(a: DeviceConfig, b: DeviceConfig | undefined): boolean {
+  if (!b) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => a[key as keyof DeviceConfig] === b[key as keyof DeviceConfig]);
+}
+
+/**
+ * Rewrites an instance's config and devices for a policy. `'none'` masks the
+ * NIC with a `none` device; the other modes restore it, with `security.acls`
+ * pointing at the sandbox's ACL when egress is restricted.
+ */
+export function applyPolicyToInstance(
+  instance: { config: Record<string, string>; devices: Record<string, DeviceConfig> },
+  profileDevices: Record<string, DeviceConfig>,
+  resolved: ResolvedNetworkPolicy,
+  aclName: string
+): void {
+  const masked = instance.config[MASKED_NIC_KEY];
+  const own = masked ? (JSON.parse(masked) as [string, DeviceConfig]) : findNic(instance.devices);
+  const inherited = findNic(profileDevices);
+  const nic = own ?? inherited;
+  if (!nic) {
+    throw new InvalidArgumentError('Network policies need a NIC device, but neither the sandbox nor its profiles define one');
+  }
+  const [name, device] = nic;
+  delete instance.config[MASKED_NIC_KEY];
+
+  if (resolved.mode === 'none') {
+    if (own) instance.config[MASKED_NIC_KEY] = JSON.stringify(own);
+    instance.devices[name] = { type: 'none' };
+  } else {
+    const {
+      'security.acls': _acls,
+      'security.acls.default.egress.action': _egress,
+      'security.acls.default.ingress.action': _ingress,
+      ...plain
+    } = device;
+    if (resolved.mode === 'restricted') {
+      // Inbound traffic keeps working as before; only egress is filtered.
+      instance.devices[name] = {
+        ...plain,
+        'security.acls': aclName,
+        'security.acls.default.egress.action': 'reject',
+        'security.acls.default.ingress.action': 'allow',
+      };
+    } else if (own && !sameDevice(plain, inherited?.[1])) {
+      instance.devices[name] = plain;
+    } else {
+      // Nothing of our own to keep: fall back to the profile's NIC.
+      delete instance.devices[name];
+    }
+  }
+
+  instance.config[NETWORK_POLICY_KEY] = typeof resolved.policy === 'string' ? resolved.policy : JSON.stringify(resolved.policy);
+}
@@ -0,0 +1,301 @@
+import { getDefaultClient } from './backend';
+import type { Sandbox } from './sandbox';
+import type { IncusClient } from './incus';
+import { InvalidArgumentError } from './errors';
+import type { SandboxOptions } from './types';
+
+/** Taken right after launch; `reset: 'snapshot'` restores it on release. */
+export const POOL_SNAPSHOT = 'isb-pool-clean';
+
+const DEFAULT_HEALTH_CHECK_INTERVAL = 30 * 1000;
+
+export interface PoolOptions extends Omit<SandboxOptions, 'name'> {
+  /** Number of sandboxes the pool keeps, idle or acquired */
+  size: number;
+  /**
+   * How a released sandbox is cleaned before reuse: restored to the snapshot
+   * taken after launch (default), or destroyed and replaced with a new one.
+   */
+  reset?: 'snapshot' | 'destroy';
+  /** Sandboxes older than this (ms since launch) are replaced instead of reused */
+  maxAge?: number;
+  /** Decides whether an idle sandbox is still usable (default: it is running) */
+  healthCheck?: (sandbox: Sandbox) => boolean | Promise<boolean>;
+  /** Time between health checks of idle sandboxes, in ms (default 30s) */
+  healthCheckInterval?: number;
+}
+
+export interface PoolStats {
+  size: number;
+  idle: number;
+  inUse: number;
+  /** Sandboxes being launched or reset in the background */
+  pending: number;
+  /** Acquired sandboxes launched on demand beyond `size`, destroyed on release */
+  overflow: number;
+}
+
+interface PoolEntry {
+  sandbox: Sandbox;
+  launchedAt: number;
+}
+
+async function isRunning(sandbox: Sandbox): Promise<boolean> {
+  return (await sandbox.getState()) === 'running';
+}
+
+/**
+ * Keeps `size` sandboxes launched ahead of time so `acquire()` only hands one
+ * out. Released sandboxes are reset in the background and go back to the idle
+ * list; ones that are destroyed instead (expired, unhealthy, `reset: 'destroy'`)
+ * are replaced. When every sandbox is taken, `acquire()` launches one on demand.
+ */
+export class SandboxPool {
+  readonly size: number;
+  /** The most recent background failure (launch, reset or destroy), if any */
+  lastError: Error | null = null;
+
+  private readonly options: PoolOptions;
+  private readonly client: IncusClient;
+  private readonly idle: PoolEntry[] = [];
+  private readonly inUse = new Map<string, PoolEntry>();
+  private readonly background = new Set<Promise<void>>();
+  private pending = 0;
+  private waiters: Array<{ resolve: () => void; reject: (err: Error) => void }> = [];
+  private closed = false;
+  private checking = false;
+  private readonly timer: ReturnType<typeof setInterval>;
+
+  constructor(options: PoolOptions, client: IncusClient = getDefaultClient()) {
+    if (!Number.isInteger(options.size) || options.size < 0) {
+      throw new InvalidArgumentError(`Pool size must be a non-negative integer, got ${options.size}`);
+    }
+    if (options.maxAge !== undefined && !(options.maxAge > 0)) {
+      throw new InvalidArgumentError(`Pool maxAge must be positive, got ${options.maxAge}`);
+    }
+    this.size = options.size;
+    this.options = options;
+    this.client = client;
+    this.timer = setInterval(() => void this.maintain(), options.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL);
+    this.timer.unref();
+    this.fill();
+  }
+
+  /**
+   * Resolves once the pool holds `size` sandboxes and none is still launching
+   * or resetting; rejects if a launch fails first.
+   */
+  ready(): Promise<void> {
+    if (this.isReady()) return Promise.resolve();
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async acquire(): Promise<Sandbox> {
+    if (this.closed) {
+      throw new InvalidArgumentError('Cannot acquire from a closed pool');
+    }
+    let entry: PoolEntry | undefined;
+    while ((entry = this.idle.shift()) && this.expired(entry)) {
+      this.run(this.discard(entry));
+    }
+    entry ??= await this.launch();
+    this.inUse.set(entry.sandbox.name, entry);
+    // Replaces any sandboxes discarded above.
+    this.fill();
+    return entry.sandbox;
+  }
+
+  /**
+   * Hands a sandbox back. It is reset (or destroyed) in the background, so
+   * this returns as soon as the sandbox is off the caller's hands.
+   */
+  async release(sandbox: Sandbox): Promise<void> {
+    const entry = this.inUse.get(sandbox.name);
+    if (!entry) {
+      throw new InvalidArgumentError(`Sandbox '${sandbox.name}' was not acquired from this pool`);
+    }
+    this.inUse.delete(sandbox.name);
+
+    const reuse = !this.closed && this.options.reset !== 'destroy' && !this.expired(entry) && this.wanted() > 0;
+    if (!reuse) {
+      this.run(this.discard(entry));
+      this.fill();
+      return;
+    }
+    this.pending++;
+    this.run(
+      this.recycle(entry)
+        .catch((err: Error) => {
+          this.lastError = err;
+          return false;
+        })
+        .then((reset) => {
+          if (reset && !this.closed) {
+            this.idle.push(entry);
+            return;
+          }
+          return this.discard(entry);
+        })
+        .finally(() => {
+          this.pending--;
+          this.fill();
+          this.settle();
+        })
+    );
+  }
+
+  stats(): PoolStats {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      inUse: this.inUse.size,
+      pending: this.pending,
+      overflow: Math.max(0, -this.wanted()),
+    };
+  }
+
+  /**
+   * Stops replenishing and destroys the idle sandboxes. Sandboxes still in use
+   * stay with their holders and are destroyed when released.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.timer);
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(new InvalidArgumentError('Pool was closed before it was ready'));
+    }
+    while (this.background.size > 0) {
+      await Promise.allSettled([...this.background]);
+    }
+    await Promise.allSettled(this.idle.splice(0).map((entry) => this.discard(entry)));
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+
+  private wanted(): number {
+    return this.size - this.idle.length - this.inUse.size - this.pending;
+  }
+
+  private isReady(): boolean {
+    return this.pending === 0 && this.wanted() <= 0;
+  }
+
+  private expired(entry: PoolEntry): boolean {
+    return this.options.maxAge !== undefined && Date.now() - entry.launchedAt >= this.options.maxAge;
+  }
+
+  private run(task: Promise<void>): void {
+    this.background.add(task);
+    task.finally(() => this.background.delete(task)).catch(() => {});
+  }
+
+  private async launch(): Promise<PoolEntry> {
+    const { size: _size, reset, maxAge: _maxAge, healthCheck: _check, healthCheckInterval: _interval, ...options } = this.options;
+    const created = await this.client.sandbox.create({ autoDestroy: true, ...options });
+    if (reset !== 'destroy') {
+      try {
+        await created.snapshot(POOL_SNAPSHOT);
+      } catch (err) {
+        await created.destroy().catch(() => {});
+        throw err;
+      }
+    }
+    return { sandbox: created, launchedAt: Date.now() };
+  }
+
+  /** Starts launches until idle plus in-flight sandboxes cover `size`. */
+  private fill(): void {
+    for (let missing = this.wanted(); missing > 0 && !this.closed; missing--) {
+      this.pending++;
+      this.run(
+        this.launch()
+          .then(
+            (entry) => {
+              if (this.closed) return this.discard(entry);
+              this.idle.push(entry);
+            },
+            (err: Error) => {
+              // Retried on the next health check rather than in a tight loop.
+              this.lastError = err;
+              this.settle(err);
+            }
+          )
+          .finally(() => {
+            this.pending--;
+            this.settle();
+          })
+      );
+    }
+  }
+
+  /** Restores the clean snapshot; false if the sandbox is unhealthy afterwards. */
+  private async recycle({ sandbox }: PoolEntry): Promise<boolean> {
+    await sandbox.restore(POOL_SNAPSHOT);
+    if (!(await isRunning(sandbox))) {
+      await sandbox.start();
+    }
+    return this.healthy(sandbox);
+  }
+
+  private async discard(entry: PoolEntry): Promise<void> {
+    await entry.sandbox.destroy().catch((err: Error) => {
+      this.lastError = err;
+    });
+  }
+
+  private async healthy(sandbox: Sandbox): Promise<boolean> {
+    try {
+      return await (this.options.healthCheck ?? isRunning)(sandbox);
+    } catch {
+      return false;
+    }
+  }
+
+  /** Replaces idle sandboxes that aged out or fail their health check. */
+  private async maintain(): Promise<void> {
+    if (this.checking || this.closed) return;
+    this.checking = true;
+    try {
+      for (const entry of [...this.idle]) {
+        const stale = this.expired(entry) || !(await this.healthy(entry.sandbox));
+        const index = this.idle.indexOf(entry);
+        // Skip sandboxes acquired while they were being checked.
+        if (stale && index !== -1) {
+          this.idle.splice(index, 1);
+          this.run(this.discard(entry));
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+    this.fill();
+  }
+
+  private settle(err?: Error): void {
+    if (!err && !this.isReady()) return;
+    for (const waiter of this.waiters.splice(0)) {
+      if (err) waiter.reject(err);
+      else waiter.resolve();
+    }
+  }
+}
+
+export function createPoolApi(client: IncusClient) {
+  return {
+    /** Creates a pool and waits for its first `size` sandboxes to be ready. */
+    async create(options: PoolOptions): Promise<SandboxPool> {
+      const created = new SandboxPool(options, client);
+      try {
+        await created.ready();
+      } catch (err) {
+        await created.close();
+        throw err;
+      }
+      return created;
+    },
+  };
+}
+
+export type PoolApi = ReturnType<typeof createPoolApi>;
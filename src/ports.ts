@@ -0,0 +1,55 @@
+import { createServer } from 'net';
+import { createSocket } from 'dgram';
+import type { DeviceConfig } from './backend';
+import type { PortMapping, PortProtocol } from './types';
+
+/** Proxy devices made by `sandbox.exposePort`, like `mount-` for mounts. */
+export const PORT_DEVICE_PREFIX = 'port-';
+
+export function portDeviceName(containerPort: number, protocol: PortProtocol): string {
+  return `${PORT_DEVICE_PREFIX}${protocol}-${containerPort}`;
+}
+
+/** Splits `tcp:127.0.0.1:8080` or `tcp:[::1]:8080` into its parts. */
+function parseAddress(value: string | undefined): { protocol: PortProtocol; host: string; port: number } | null {
+  const match = value?.match(/^(tcp|udp):(\[[^\]]+\]|[^:]+):(\d+)$/);
+  if (!match) return null;
+  return { protocol: match[1] as PortProtocol, host: match[2]!.replace(/^\[|\]$/g, ''), port: Number(match[3]) };
+}
+
+export function formatAddress(protocol: PortProtocol, host: string, port: number): string {
+  return `${protocol}:${host.includes(':') ? `[${host}]` : host}:${port}`;
+}
+
+export function readPorts(devices: Record<string, DeviceConfig> | undefined): PortMapping[] {
+  const ports: PortMapping[] = [];
+  for (const [device, spec] of Object.entries(devices ?? {})) {
+    if (spec.type !== 'proxy' || !device.startsWith(PORT_DEVICE_PREFIX)) continue;
+    const listen = parseAddress(spec.listen);
+    const connect = parseAddress(spec.connect);
+    if (!listen || !connect) continue;
+    ports.push({ containerPort: connect.port, protocol: listen.protocol, host: listen.host, hostPort: listen.port, device });
+  }
+  return ports.sort((a, b) => a.containerPort - b.containerPort);
+}
+
+/** Asks the OS for a port that is free on `host` right now. */
+export function findFreePort(host: string, protocol: PortProtocol): Promise<number> {
+  return new Promise((resolve, reject) => {
+    if (protocol === 'udp') {
+      const socket = createSocket(host.includes(':') ? 'udp6' : 'udp4');
+      socket.once('error', reject);
+      socket.bind(0, host, () => {
+        const { port } = socket.address();
+        socket.close(() => resolve(port));
+      });
+      return;
+    }
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, host, () => {
+      const address = server.address();
+      server.close(() => (address && typeof address === 'object' ? resolve(address.port) : reject(new Error('No port assigned'))));
+    });
+  });
+}
@@ -0,0 +1,162 @@
+import type { IncusBackend } from './backend';
+import type { ProcessInfo, SpawnOptions, ProcessLogs } from './types';
+import { CommandError, TimeoutError } from './errors';
+
+export const PROCESS_ROOT = '/tmp/.isb-processes';
+
+// $1 = process directory, $2 = command. setsid makes the background job its own
+// process group, so its pid doubles as the group id we signal in kill().
+export const SPAWN_SCRIPT = [
+  'd="$1"',
+  'mkdir -p "$d" || exit 1',
+  'printf "%s" "$2" > "$d/command"',
+  'date +%s > "$d/started"',
+  'setsid sh -c \'sh -c "$1"; echo $? > "$2/exit"\' isb-process "$2" "$d" > "$d/stdout" 2> "$d/stderr" < /dev/null &',
+  'echo $! > "$d/pid"',
+  'echo $!',
+].join('\n');
+
+export const STATUS_SCRIPT = [
+  'd="$1"',
+  'if [ -f "$d/exit" ]; then echo "exited $(cat "$d/exit")"',
+  'elif kill -0 "$(cat "$d/pid")" 2>/dev/null; then echo running',
+  'else echo killed; fi',
+].join('\n');
+
+export const LIST_SCRIPT = [
+  `for d in ${PROCESS_ROOT}/*/; do`,
+  '  [ -f "$d/pid" ] || continue',
+  '  pid=$(cat "$d/pid")',
+  '  if [ -f "$d/exit" ]; then status="exited $(cat "$d/exit")"',
+  '  elif kill -0 "$pid" 2>/dev/null; then status=running',
+  '  else status=killed; fi',
+  '  printf "%s\\t%s\\t%s\\t%s\\t%s\\n" "$(basename "$d")" "$pid" "$(cat "$d/started")" "$status" "$(base64 -w0 "$d/command")"',
+  'done',
+].join('\n');
+
+function parseStatus(status: string): { running: boolean; exitCode: number | null } {
+  if (status === 'running') {
+    return { running: true, exitCode: null };
+  }
+  const match = status.match(/^exited (\d+)$/);
+  return { running: false, exitCode: match ? Number(match[1]) : null };
+}
+
+export class SandboxProcess {
+  readonly id: string;
+  readonly pid: number;
+  readonly command: string;
+  private readonly dir: string;
+
+  constructor(
+    private sandboxName: string,
+    private backend: IncusBackend,
+    info: { id: string; pid: number; command: string }
+  ) {
+    this.id = info.id;
+    this.pid = info.pid;
+    this.command = info.command;
+    this.dir = `${PROCESS_ROOT}/${info.id}`;
+  }
+
+  async isRunning(): Promise<boolean> {
+    return (await this.status()).running;
+  }
+
+  async wait(options?: { timeout?: number; interval?: number }): Promise<number | null> {
+    const interval = options?.interval ?? 500;
+    const startTime = Date.now();
+
+    while (true) {
+      const status = await this.status();
+      if (!status.running) {
+        return status.exitCode;
+      }
+      if (options?.timeout && Date.now() - startTime >= options.timeout) {
+        throw new TimeoutError(`wait for process ${this.id}`, options.timeout);
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+
+  async kill(signal: NodeJS.Signals | number = 'SIGTERM'): Promise<void> {
+    const sig = typeof signal === 'number' ? `-${signal}` : `-${signal.replace(/^SIG/, '')}`;
+    const result = await this.backend.execInInstance(this.sandboxName, ['kill', sig, '--', `-${this.pid}`]);
+    if (result.exitCode !== 0 && (await this.isRunning())) {
+      throw new CommandError(`Failed to kill process ${this.id}: ${result.stderr}`);
+    }
+  }
+
+  async logs(): Promise<ProcessLogs> {
+    const [stdout, stderr] = await Promise.all([
+      this.backend.execInInstance(this.sandboxName, ['cat', `${this.dir}/stdout`]),
+      this.backend.execInInstance(this.sandboxName, ['cat', `${this.dir}/stderr`]),
+    ]);
+    if (stdout.exitCode !== 0) {
+      throw new CommandError(`Failed to read logs of process ${this.id}: ${stdout.stderr}`);
+    }
+    return { stdout: stdout.stdout, stderr: stderr.stdout };
+  }
+
+  private async status(): Promise<{ running: boolean; exitCode: number | null }> {
+    const result = await this.backend.execInInstance(this.sandboxName, ['sh', '-c', STATUS_SCRIPT, 'sh', this.dir]);
+    if (result.exitCode !== 0) {
+      throw new CommandError(`Failed to get status of process ${this.id}: ${result.stderr}`);
+    }
+    return parseStatus(result.stdout.trim());
+  }
+}
+
+export async function spawnProcess(
+  sandboxName: string,
+  backend: IncusBackend,
+  id: string,
+  command: string,
+  options?: SpawnOptions
+): Promise<SandboxProcess> {
+  const result = await backend.execInInstance(
+    sandboxName,
+    ['sh', '-c', SPAWN_SCRIPT, 'sh', `${PROCESS_ROOT}/${id}`, command],
+    { cwd: options?.cwd, env: options?.env, user: options?.user }
+  );
+
+  const pid = parseInt(result.stdout.trim(), 10);
+  if (result.exitCode !== 0 || Number.isNaN(pid)) {
+    throw new CommandError(`Failed to spawn process: ${result.stderr}`);
+  }
+
+  return new SandboxProcess(sandboxName, backend, { id, pid, command });
+}
+
+export async function getProcess(sandboxName: string, backend: IncusBackend, id: string): Promise<SandboxProcess | null> {
+  const dir = `${PROCESS_ROOT}/${id}`;
+  const [pid, command] = await Promise.all([
+    backend.execInInstance(sandboxName, ['cat', `${dir}/pid`]),
+    backend.execInInstance(sandboxName, ['cat', `${dir}/command`]),
+  ]);
+  if (pid.exitCode !== 0 || command.exitCode !== 0) {
+    return null;
+  }
+  return new SandboxProcess(sandboxName, backend, { id, pid: parseInt(pid.stdout.trim(), 10), command: command.stdout });
+}
+
+export async function listProcesses(sandboxName: string, backend: IncusBackend): Promise<ProcessInfo[]> {
+  const result = await backend.execInInstance(sandboxName, ['sh', '-c', LIST_SCRIPT]);
+  if (result.exitCode !== 0) {
+    throw new CommandError(`Failed to list processes: ${result.stderr}`);
+  }
+
+  return result.stdout
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [id = '', pid = '0', started = '0', status = '', command = ''] = line.split('\t');
+      return {
+        id,
+        pid: parseInt(pid, 10),
+        command: Buffer.from(command, 'base64').toString('utf8'),
+        startedAt: new Date(parseInt(started, 10) * 1000),
+        ...parseStatus(status),
+      };
+    });
+}
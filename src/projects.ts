@@ -0,0 +1,25 @@
+import type { IncusClient } from './incus';
+import type { CreateProjectOptions, ProjectInfo } from './types';
+
+/**
+ * The Incus projects on a client's daemon. Sandboxes land in the project the
+ * client is configured with, so a client per project keeps tenants apart.
+ */
+export function createProjectsApi(client: IncusClient) {
+  return {
+    async list(): Promise<ProjectInfo[]> {
+      return client.getBackend().listProjects();
+    },
+
+    async create(name: string, options?: CreateProjectOptions): Promise<void> {
+      await client.getBackend().createProject(name, options ?? {});
+    },
+
+    /** Deletes an empty project; Incus refuses while anything still uses it. */
+    async delete(name: string): Promise<void> {
+      await client.getBackend().deleteProject(name);
+    },
+  };
+}
+
+export type ProjectsApi = ReturnType<typeof createProjectsApi>;
@@ -0,0 +1,127 @@
+import * as fs from 'fs/promises';
+import { InvalidArgumentError, PathNotFoundError } from './errors';
+import { parseYaml } from './yaml';
+import type { ImageRecipe, RecipeStep } from './types';
+
+const RECIPE_KEYS = new Set(['alias', 'base', 'type', 'description', 'env', 'workdir', 'steps']);
+const COPY_KEYS = new Set(['from', 'to', 'ignore']);
+
+function invalid(message: string): never {
+  throw new InvalidArgumentError(`Invalid recipe: ${message}`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || value === '') invalid(`'${field}' must be a non-empty string`);
+  return value;
+}
+
+function copyStep(value: unknown, where: string): RecipeStep {
+  // `copy: ./src /app` is shorthand for `copy: { from: ./src, to: /app }`.
+  if (typeof value === 'string') {
+    const parts = value.trim().split(/\s+/);
+    if (parts.length !== 2) invalid(`${where}: 'copy' shorthand is '<from> <to>', got '${value}'`);
+    return { copy: { from: parts[0]!, to: parts[1]! } };
+  }
+  if (!isObject(value)) invalid(`${where}: 'copy' must be '<from> <to>' or have 'from' and 'to'`);
+  for (const key of Object.keys(value)) {
+    if (!COPY_KEYS.has(key)) invalid(`${where}: unknown copy field '${key}'`);
+  }
+  const from = optionalString(value.from, `${where}.copy.from`) ?? invalid(`${where}: 'copy' needs 'from'`);
+  const to = optionalString(value.to, `${where}.copy.to`) ?? invalid(`${where}: 'copy' needs 'to'`);
+  const ignore = value.ignore ?? undefined;
+  if (ignore !== undefined && !(Array.isArray(ignore) && ignore.every((p) => typeof p === 'string'))) {
+    invalid(`${where}: 'ignore' must be a list of patterns`);
+  }
+  return { copy: { from, to, ...(ignore ? { ignore: ignore as string[] } : {}) } };
+}
+
+/** Checks a recipe's shape and normalizes `copy` shorthands. */
+export function validateRecipe(value: unknown): ImageRecipe {
+  if (!isObject(value)) invalid('expected a mapping at the top level');
+  for (const key of Object.keys(value)) {
+    if (!RECIPE_KEYS.has(key)) invalid(`unknown field '${key}'`);
+  }
+
+  const alias = optionalString(value.alias, 'alias') ?? invalid("'alias' is required");
+  const type = optionalString(value.type, 'type');
+  if (type !== undefined && type !== 'container' && type !== 'vm') {
+    invalid(`'type' must be 'container' or 'vm', got '${type}'`);
+  }
+  const workdir = optionalString(value.workdir, 'workdir');
+  if (workdir !== undefined && !workdir.startsWith('/')) invalid(`'workdir' must be an absolute path, got '${workdir}'`);
+
+  let env: Record<string, string> | undefined;
+  if (value.env !== undefined && value.env !== null) {
+    if (!isObject(value.env)) invalid("'env' must be a mapping");
+    env = {};
+    for (const [key, v] of Object.entries(value.env)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) invalid(`invalid environment variable name '${key}'`);
+      if (!['string', 'number', 'boolean'].includes(typeof v)) invalid(`env.${key} must be a string`);
+      env[key] = String(v);
+    }
+  }
+
+  if (!Array.isArray(value.steps)) invalid("'steps' must be a list");
+  const steps = value.steps.map((step: unknown, i): RecipeStep => {
+    const where = `step ${i + 1}`;
+    const keys = isObject(step) ? Object.keys(step) : [];
+    if (!isObject(step) || keys.length !== 1) invalid(`${where}: expected exactly one of 'run' or 'copy'`);
+    if (keys[0] === 'run') {
+      return { run: optionalString(step.run, `${where}.run`) ?? invalid(`${where}: 'run' needs a command`) };
+    }
+    if (keys[0] === 'copy') return copyStep(step.copy, where);
+    return invalid(`${where}: unknown step '${keys[0]}'`);
+  });
+
+  return {
+    alias,
+    base: optionalString(value.base, 'base'),
+    type: type as ImageRecipe['type'],
+    description: optionalString(value.description, 'description'),
+    env,
+    workdir,
+    steps,
+  };
+}
+
+/** Parses recipe YAML (or JSON, which starts with `{`). */
+export function parseRecipe(source: string): ImageRecipe {
+  if (source.trimStart().startsWith('{')) {
+    let value: unknown;
+    try {
+      value = JSON.parse(source);
+    } catch (err) {
+      invalid((err as Error).message);
+    }
+    return validateRecipe(value);
+  }
+  return validateRecipe(parseYaml(source));
+}
+
+export async function loadRecipe(path: string): Promise<ImageRecipe> {
+  const source = await fs.readFile(path, 'utf8').catch(() => {
+    throw new PathNotFoundError(path);
+  });
+  try {
+    return parseRecipe(source);
+  } catch (err) {
+    if (err instanceof InvalidArgumentError) {
+      throw new InvalidArgumentError(`${path}: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+/** `run apt-get update` / `copy ./src -> /app`, for progress output. */
+export function describeStep(step: RecipeStep): string {
+  if ('run' in step) {
+    const firstLine = step.run.trim().split('\n')[0]!;
+    return `run ${firstLine}${step.run.trim().includes('\n') ? ' ...' : ''}`;
+  }
+  return `copy ${step.copy.from} -> ${step.copy.to}`;
+}
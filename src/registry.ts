@@ -0,0 +1,130 @@
+import type { Sandbox } from './sandbox';
+import type { IncusBackend } from './backend';
+import { SocketBackend } from './client';
+import { CommandError } from './errors';
+import { METADATA_KEYS } from './metadata';
+
+interface TrackedSandbox {
+  sandbox: Sandbox;
+  backend: IncusBackend;
+  autoDestroy: boolean;
+}
+
+const HEARTBEAT_INTERVAL = 60 * 1000;
+
+// Keyed by backend as well as name: two clients may each have a sandbox 'web'.
+const tracked = new Map<IncusBackend, Map<string, TrackedSandbox>>();
+let handlersInstalled = false;
+let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+function entries(backend?: IncusBackend): TrackedSandbox[] {
+  const maps = backend ? [tracked.get(backend)] : [...tracked.values()];
+  return maps.flatMap((m) => (m ? [...m.values()] : []));
+}
+
+// Lets `sandbox.gc()` in other processes tell live sandboxes from leftovers.
+function beat(): void {
+  const now = new Date().toISOString();
+  for (const { sandbox, backend } of entries()) {
+    backend.setInstanceConfig(sandbox.name, METADATA_KEYS.heartbeat, now).catch(() => {});
+  }
+}
+
+function autoDestroyNames(): string[] {
+  return entries().filter((t) => t.autoDestroy).map((t) => t.sandbox.name);
+}
+
+async function onBeforeExit(): Promise<void> {
+  if (autoDestroyNames().length > 0) {
+    await destroyTracked();
+  }
+}
+
+async function onSignal(signal: NodeJS.Signals): Promise<void> {
+  await destroyTracked().catch(() => {});
+  removeHandlers();
+  // Re-raise so the default handler (or the program's own) decides how to exit.
+  if (process.listenerCount(signal) === 0) {
+    process.kill(process.pid, signal);
+  }
+}
+
+// 'exit' also fires after uncaught exceptions and unhandled rejections.
+function onExit(): void {
+  const pending = entries().filter((t) => t.autoDestroy);
+  tracked.clear();
+  for (const backend of new Set(pending.map((t) => t.backend))) {
+    if (backend instanceof SocketBackend) {
+      backend.deleteInstancesSync(pending.filter((t) => t.backend === backend).map((t) => t.sandbox.name));
+    }
+  }
+}
+
+function installHandlers(): void {
+  if (handlersInstalled) return;
+  handlersInstalled = true;
+  process.on('beforeExit', onBeforeExit);
+  process.on('exit', onExit);
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+}
+
+function removeHandlers(): void {
+  if (!handlersInstalled) return;
+  handlersInstalled = false;
+  process.off('beforeExit', onBeforeExit);
+  process.off('exit', onExit);
+  process.off('SIGINT', onSignal);
+  process.off('SIGTERM', onSignal);
+}
+
+export function trackSandbox(sandbox: Sandbox, backend: IncusBackend, autoDestroy: boolean): void {
+  let sandboxes = tracked.get(backend);
+  if (!sandboxes) {
+    sandboxes = new Map();
+    tracked.set(backend, sandboxes);
+  }
+  sandboxes.set(sandbox.name, { sandbox, backend, autoDestroy });
+  if (autoDestroy) {
+    installHandlers();
+  }
+  if (!heartbeat) {
+    heartbeat = setInterval(beat, HEARTBEAT_INTERVAL);
+    heartbeat.unref();
+  }
+}
+
+export function untrackSandbox(backend: IncusBackend, name: string): void {
+  const sandboxes = tracked.get(backend);
+  sandboxes?.delete(name);
+  if (sandboxes?.size === 0) {
+    tracked.delete(backend);
+  }
+  if (autoDestroyNames().length === 0) {
+    removeHandlers();
+  }
+  if (tracked.size === 0 && heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+}
+
+/** Sandboxes created by this process (on `backend`, if given) that have not been destroyed yet. */
+export function trackedSandboxes(backend?: IncusBackend): Sandbox[] {
+  return entries(backend).map((t) => t.sandbox);
+}
+
+/**
+ * Destroys the sandboxes created with `autoDestroy`, or every tracked sandbox
+ * with `all`. Failures are collected so one stuck instance does not keep the
+ * rest alive.
+ */
+export async function destroyTracked(backend?: IncusBackend, options?: { all?: boolean }): Promise<void> {
+  const targets = entries(backend).filter((t) => options?.all || t.autoDestroy);
+  const results = await Promise.allSettled(targets.map((t) => t.sandbox.destroy()));
+  const failed = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failed.length > 0) {
+    const reasons = failed.map((r) => (r.reason as Error).message).join('; ');
+    throw new CommandError(`Failed to destroy ${failed.length} of ${targets.length} sandboxes: ${reasons}`);
+  }
+}
@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { CommandError, IncusConnectionError, InvalidArgumentError } from './errors';
+import { parseYaml } from './yaml';
+import type { YamlValue } from './yaml';
+import type { Endpoint } from './api';
+
+/** The incus CLI's config directory, where remotes and client certificates live. */
+export function incusConfigDir(): string {
+  return process.env.INCUS_CONF || join(homedir(), '.config', 'incus');
+}
+
+function readOptional(path: string): string | undefined {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+type RemoteEntry = { [key: string]: YamlValue };
+
+/** A remote's entry in `config.yml`, or null if there is none. */
+function readRemote(remote: string, configDir: string): RemoteEntry | null {
+  const source = readOptional(join(configDir, 'config.yml'));
+  const config = source === undefined ? null : parseYaml(source);
+  const remotes = config && typeof config === 'object' && !Array.isArray(config) ? config.remotes : null;
+  const entry = remotes && typeof remotes === 'object' && !Array.isArray(remotes) ? remotes[remote] : null;
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry) || typeof entry.addr !== 'string') {
+    return null;
+  }
+  return entry;
+}
+
+/** Where a `<remote>:<image>` reference is pulled from, as an Incus image source. */
+export interface ImageServer {
+  server: string;
+  protocol: string;
+  certificate?: string;
+}
+
+/** Used when `config.yml` has no `images` remote, as on a host without the incus CLI. */
+const DEFAULT_IMAGE_SERVERS: Record<string, ImageServer> = {
+  images: { server: 'https://images.linuxcontainers.org', protocol: 'simplestreams' },
+};
+
+/**
+ * Resolves the remote part of an image reference (`ubuntu:24.04`) from the
+ * incus CLI config, so any image server added with `incus remote add` works.
+ */
+export function resolveImageServer(remote: string, configDir: string = incusConfigDir()): ImageServer {
+  const entry = readRemote(remote, configDir);
+  if (!entry) {
+    const fallback = DEFAULT_IMAGE_SERVERS[remote];
+    if (fallback) return fallback;
+    throw new CommandError(`Unknown image remote '${remote}' (not in ${join(configDir, 'config.yml')})`);
+  }
+
+  const addr = entry.addr as string;
+  if (!addr.startsWith('https://')) {
+    throw new CommandError(`Image remote '${remote}' has an unsupported address '${addr}'`);
+  }
+  const protocol = typeof entry.protocol === 'string' ? entry.protocol : 'incus';
+  // Another Incus daemon is trusted by its stored certificate, like the CLI does.
+  const certificate = protocol === 'incus' ? readOptional(join(configDir, 'servercerts', `${remote}.crt`)) : undefined;
+  return { server: addr, protocol, ...(certificate ? { certificate } : {}) };
+}
+
+/**
+ * Resolves a remote name the way the incus CLI does, from `config.yml` in its
+ * config directory. `local` is always `socket`; an HTTPS remote is reached
+ * with the CLI's client certificate, pinning the server certificate it stored
+ * when the remote was added.
+ */
+export function resolveRemote(remote: string, socket: string, configDir: string = incusConfigDir()): Endpoint {
+  if (remote === 'local') return socket;
+
+  const entry = readRemote(remote, configDir);
+  if (!entry) {
+    throw new InvalidArgumentError(`Unknown Incus remote '${remote}' (not in ${join(configDir, 'config.yml')})`);
+  }
+  if (entry.protocol === 'simplestreams' || entry.protocol === 'oci') {
+    throw new InvalidArgumentError(`Remote '${remote}' is an image server, not an Incus daemon`);
+  }
+
+  const addr = entry.addr as string;
+  if (addr.startsWith('unix://')) {
+    return addr.slice('unix://'.length) || socket;
+  }
+  if (!addr.startsWith('https://')) {
+    throw new InvalidArgumentError(`Remote '${remote}' has an unsupported address '${addr}'`);
+  }
+  if (entry.auth_type !== undefined && entry.auth_type !== null && entry.auth_type !== 'tls') {
+    throw new InvalidArgumentError(`Remote '${remote}' uses ${entry.auth_type} authentication; only tls is supported`);
+  }
+
+  const cert = readOptional(join(configDir, 'client.crt'));
+  const key = readOptional(join(configDir, 'client.key'));
+  if (cert === undefined || key === undefined) {
+    throw new IncusConnectionError(`No client certificate in ${configDir} to authenticate to remote '${remote}'`);
+  }
+  return { url: addr, cert, key, serverCert: readOptional(join(configDir, 'servercerts', `${remote}.crt`)) };
+}
@@ -1,43 +1,105 @@
 import { nanoid } from 'nanoid';
-import * as client from './client';
+import { getBackend } from './backend';
+import type { IncusBackend } from './backend';
+import type { IncusClient } from './incus';
 import { FileSystem } from './filesystem';
+import { trackSandbox, untrackSandbox, trackedSandboxes, destroyTracked } from './registry';
+import { collectGarbage, GENERATED_NAME_PREFIX } from './gc';
+import { creationMetadata, METADATA_KEYS, OVERLAY_BASE, OVERLAY_TARGET_PREFIX, readMounts } from './metadata';
+import { createLabelMatcher } from './labels';
+import { validateLimits, VM_RESTART_LIMITS } from './limits';
+import { resolveNetworkPolicy } from './network';
+import { findFreePort, formatAddress, portDeviceName, readPorts } from './ports';
+import { SandboxProcess, spawnProcess, getProcess, listProcesses } from './process';
 import {
   SandboxNotFoundError,
   SandboxNotRunningError,
+  ImageNotFoundError,
   TimeoutError,
   NameConflictError,
   MountError,
   PathNotFoundError,
   MountNotFoundError,
+  PortNotExposedError,
+  InvalidArgumentError,
+  ProcessNotFoundError,
 } from './errors';
 import type {
   SandboxOptions,
+  ForkOptions,
   SandboxType,
   SandboxState,
   SandboxInfo,
+  SandboxLimits,
+  SandboxMetrics,
+  MetricsWatcher,
+  NetworkPolicy,
+  SetLimitsOptions,
+  LimitsUpdate,
   ListOptions,
+  GcOptions,
+  GcResult,
   DestroyOptions,
   StopOptions,
   CommandOptions,
   CommandResult,
+  CommandOutputEvent,
+  CommandStream,
   CodeOptions,
   CodeResult,
+  SpawnOptions,
+  ProcessInfo,
+  TerminalOptions,
+  TerminalSession,
   SnapshotInfo,
+  ImageInfo,
+  PublishOptions,
   MountOptions,
   MountInfo,
   MountMode,
+  ExposePortOptions,
+  PortMapping,
+  PortProtocol,
 } from './types';
 import { DEFAULT_CONFIG, LANGUAGE_COMMANDS } from './types';
 
+/**
+ * Mounts the overlay for a `mount-*` device whose base is already attached.
+ * The upper layer lives in the rootfs, so a copy of the sandbox can mount it
+ * again and see the writes made so far.
+ */
+async function mountOverlay(backend: IncusBackend, name: string, device: string, target: string): Promise<void> {
+  const workDir = `/.overlay-work/${device}`;
+  const mkdirResult = await backend.execInInstance(name, ['mkdir', '-p', `${workDir}/upper`, `${workDir}/work`, target]);
+  if (mkdirResult.exitCode !== 0) {
+    throw new MountError(`Failed to create overlay directories: ${mkdirResult.stderr}`);
+  }
+
+  const mountResult = await backend.execInInstance(name, [
+    'mount',
+    '-t',
+    'overlay',
+    'overlay',
+    '-o',
+    `lowerdir=${OVERLAY_BASE}${device},upperdir=${workDir}/upper,workdir=${workDir}/work`,
+    target,
+  ]);
+  if (mountResult.exitCode !== 0) {
+    throw new MountError(`Failed to mount overlay: ${mountResult.stderr}`);
+  }
+}
+
 export class Sandbox {
   readonly name: string;
   readonly type: SandboxType;
   readonly fs: FileSystem;
+  private readonly backend: IncusBackend;
 
-  constructor(name: string, type: SandboxType) {
+  constructor(name: string, type: SandboxType, backend: IncusBackend = getBackend()) {
     this.name = name;
     this.type = type;
-    this.fs = new FileSystem(name);
+    this.backend = backend;
+    this.fs = new FileSystem(name, backend);
   }
 
   async runCommand(command: string, options?: CommandOptions): Promise<CommandResult> {
@@ -47,7 +109,7 @@ export class Sandbox {
     }
 
     const startTime = Date.now();
-    const result = await client.execInInstance(
+    const result = await this.backend.execInInstance(
       this.name,
       ['sh', '-c', command],
       {
@@ -55,6 +117,9 @@ export class Sandbox {
         env: options?.env,
         user: options?.user,
         timeout: options?.timeout ?? 30000,
+        stdin: options?.stdin,
+        onStdout: options?.onStdout,
+        onStderr: options?.onStderr,
       }
     );
 
@@ -66,6 +131,84 @@ export class Sandbox {
     };
   }
 
+  streamCommand(command: string, options?: Omit<CommandOptions, 'onStdout' | 'onStderr'>): CommandStream {
+    const queue: CommandOutputEvent[] = [];
+    let done = false;
+    let failure: unknown;
+    let wake: (() => void) | null = null;
+
+    const push = (event: CommandOutputEvent) => {
+      queue.push(event);
+      wake?.();
+    };
+
+    const result = this.runCommand(command, {
+      ...options,
+      onStdout: (chunk) => push({ stream: 'stdout', chunk }),
+      onStderr: (chunk) => push({ stream: 'stderr', chunk }),
+    });
+    result.then(
+      () => {
+        done = true;
+        wake?.();
+      },
+      (err) => {
+        done = true;
+        failure = err;
+        wake?.();
+      }
+    );
+
+    return {
+      result,
+      async *[Symbol.asyncIterator]() {
+        while (true) {
+          const event = queue.shift();
+          if (event) {
+            yield event;
+            continue;
+          }
+          if (done) {
+            if (failure) throw failure;
+            return;
+          }
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = null;
+        }
+      },
+    };
+  }
+
+  async spawn(command: string, options?: SpawnOptions): Promise<SandboxProcess> {
+    const state = await this.getState();
+    if (state !== 'running') {
+      throw new SandboxNotRunningError(this.name);
+    }
+
+    return spawnProcess(this.name, this.backend, `proc-${nanoid(8)}`, command, options);
+  }
+
+  async getProcess(id: string): Promise<SandboxProcess> {
+    const proc = await getProcess(this.name, this.backend, id);
+    if (!proc) {
+      throw new ProcessNotFoundError(id);
+    }
+    return proc;
+  }
+
+  async processes(): Promise<ProcessInfo[]> {
+    return listProcesses(this.name, this.backend);
+  }
+
+  async openTerminal(options?: TerminalOptions): Promise<TerminalSession> {
+    const state = await this.getState();
+    if (state !== 'running') {
+      throw new SandboxNotRunningError(this.name);
+    }
+
+    return this.backend.openTerminal(this.name, options);
+  }
+
   async runCode(code: string, options: CodeOptions): Promise<CodeResult> {
     const langConfig = LANGUAGE_COMMANDS[options.language];
     const tempFile = `/tmp/code-${nanoid()}.${langConfig.ext}`;
@@ -94,25 +237,104 @@ export class Sandbox {
   }
 
   async start(): Promise<void> {
-    await client.startInstance(this.name);
+    await this.backend.startInstance(this.name);
   }
 
   async stop(options?: StopOptions): Promise<void> {
-    await client.stopInstance(this.name, options?.force, options?.timeout);
+    await this.backend.stopInstance(this.name, options?.force, options?.timeout);
   }
 
   async restart(): Promise<void> {
-    await client.restartInstance(this.name);
+    await this.backend.restartInstance(this.name);
   }
 
   async getState(): Promise<SandboxState> {
-    const instance = await client.getInstance(this.name);
+    const instance = await this.backend.getInstance(this.name);
     if (!instance) {
       throw new SandboxNotFoundError(this.name);
     }
     return instance.state;
   }
 
+  async info(): Promise<SandboxInfo> {
+    const info = await this.backend.getInstanceInfo(this.name);
+    if (!info) {
+      throw new SandboxNotFoundError(this.name);
+    }
+    return info;
+  }
+
+  async metrics(): Promise<SandboxMetrics> {
+    return this.backend.getInstanceMetrics(this.name);
+  }
+
+  /** Samples `metrics()` every `intervalMs` until closed or the loop exits. */
+  watchMetrics(intervalMs: number = 1000): MetricsWatcher {
+    let closed = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let wake: (() => void) | null = null;
+
+    const close = () => {
+      closed = true;
+      clearTimeout(timer);
+      wake?.();
+    };
+
+    const sample = () => this.metrics();
+    return {
+      close,
+      async *[Symbol.asyncIterator]() {
+        try {
+          while (!closed) {
+            yield await sample();
+            if (closed) return;
+            await new Promise<void>((resolve) => {
+              wake = resolve;
+              timer = setTimeout(resolve, intervalMs);
+            });
+            wake = null;
+          }
+        } finally {
+          close();
+        }
+      },
+    };
+  }
+
+  /**
+   * Replaces the sandbox's network policy. Hostnames in allow/deny lists are
+   * resolved now; call again to pick up DNS changes.
+   */
+  async setNetworkPolicy(policy: NetworkPolicy): Promise<void> {
+    await this.backend.applyNetworkPolicy(this.name, await resolveNetworkPolicy(policy));
+  }
+
+  async getLimits(): Promise<SandboxLimits> {
+    return (await this.info()).limits;
+  }
+
+  /**
+   * Changes limits on a live sandbox. Fields left out keep their value.
+   * Containers apply everything immediately; running VMs only pick up CPU and
+   * memory changes on restart, which `restartRequired` reports.
+   */
+  async setLimits(limits: SandboxLimits, options?: SetLimitsOptions): Promise<LimitsUpdate> {
+    validateLimits(limits, this.type);
+    const before = await this.info();
+    await this.backend.setLimits(this.name, limits);
+
+    let restartRequired =
+      this.type === 'vm' && before.state === 'running'
+        ? VM_RESTART_LIMITS.filter((field) => limits[field] !== undefined && limits[field] !== before.limits[field])
+        : [];
+    if (restartRequired.length > 0 && options?.restart) {
+      await this.restart();
+      restartRequired = [];
+    }
+
+    return { limits: await this.getLimits(), restartRequired };
+  }
+
   async destroy(options?: DestroyOptions): Promise<void> {
     if (options?.deleteSnapshots !== false) {
       const snapshots = await this.listSnapshots();
@@ -121,23 +343,63 @@ export class Sandbox {
       }
     }
 
-    await client.deleteInstance(this.name, options?.force ?? true);
+    await this.backend.deleteInstance(this.name, options?.force ?? true);
+    untrackSandbox(this.backend, this.name);
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.destroy();
   }
 
   async snapshot(name: string): Promise<void> {
-    await client.createSnapshot(this.name, name);
+    await this.backend.createSnapshot(this.name, name);
   }
 
   async restore(name: string): Promise<void> {
-    await client.restoreSnapshot(this.name, name);
+    await this.backend.restoreSnapshot(this.name, name);
   }
 
   async listSnapshots(): Promise<SnapshotInfo[]> {
-    return client.listSnapshots(this.name);
+    return this.backend.listSnapshots(this.name);
   }
 
   async deleteSnapshot(name: string): Promise<void> {
-    await client.deleteSnapshot(this.name, name);
+    await this.backend.deleteSnapshot(this.name, name);
+  }
+
+  /**
+   * Publishes the sandbox (or one of its snapshots) as a local image. Incus
+   * only publishes stopped instances, so a running sandbox is published from
+   * a throwaway snapshot rather than stopped.
+   */
+  async publish(options?: PublishOptions): Promise<ImageInfo> {
+    let snapshot = options?.fromSnapshot;
+    const temporary = !snapshot && (await this.getState()) !== 'stopped' ? `isb-publish-${nanoid(6)}` : undefined;
+    if (temporary) {
+      await this.snapshot(temporary);
+      snapshot = temporary;
+    }
+
+    try {
+      const fingerprint = await this.backend.publishImage(this.name, {
+        snapshot,
+        description: options?.description,
+        public: options?.public,
+        properties: options?.properties,
+      });
+      if (options?.alias) {
+        await this.backend.setImageAlias(options.alias, fingerprint);
+      }
+      const image = await this.backend.getImage(fingerprint);
+      if (!image) {
+        throw new ImageNotFoundError(fingerprint);
+      }
+      return image;
+    } finally {
+      if (temporary) {
+        await this.deleteSnapshot(temporary).catch(() => {});
+      }
+    }
   }
 
   async mount(options: MountOptions): Promise<MountInfo> {
@@ -162,14 +424,13 @@ export class Sandbox {
         throw new MountError('Overlay mode is not supported for VMs, use readonly or readwrite mode');
       }
 
-      const basePath = `/.overlay-base/${deviceName}`;
-      const workDir = `/.overlay-work/${deviceName}`;
+      const basePath = `${OVERLAY_BASE}${deviceName}`;
 
-      const currentIntercept = await client.getInstanceConfig(this.name, 'security.syscalls.intercept.mount');
+      const currentIntercept = await this.backend.getInstanceConfig(this.name, 'security.syscalls.intercept.mount');
       if (currentIntercept !== 'true') {
-        await client.setInstanceConfig(this.name, 'security.syscalls.intercept.mount', 'true');
-        await client.setInstanceConfig(this.name, 'security.syscalls.intercept.mount.allowed', 'overlay');
-        await client.restartInstance(this.name);
+        await this.backend.setInstanceConfig(this.name, 'security.syscalls.intercept.mount', 'true');
+        await this.backend.setInstanceConfig(this.name, 'security.syscalls.intercept.mount.allowed', 'overlay');
+        await this.backend.restartInstance(this.name);
         const startTime = Date.now();
         while (Date.now() - startTime < 30000) {
           const state = await this.getState();
@@ -178,43 +439,25 @@ export class Sandbox {
         }
       }
 
-      await client.addDiskDevice(this.name, deviceName, options.source, basePath, {
+      await this.backend.addDiskDevice(this.name, deviceName, options.source, basePath, {
         readonly: true,
         shift,
       });
 
-      const mkdirResult = await client.execInInstance(this.name, [
-        'mkdir',
-        '-p',
-        `${workDir}/upper`,
-        `${workDir}/work`,
-        options.target,
-      ]);
-      if (mkdirResult.exitCode !== 0) {
-        await client.removeDiskDevice(this.name, deviceName).catch(() => {});
-        throw new MountError(`Failed to create overlay directories: ${mkdirResult.stderr}`);
-      }
-
-      const mountResult = await client.execInInstance(this.name, [
-        'mount',
-        '-t',
-        'overlay',
-        'overlay',
-        '-o',
-        `lowerdir=${basePath},upperdir=${workDir}/upper,workdir=${workDir}/work`,
-        options.target,
-      ]);
-      if (mountResult.exitCode !== 0) {
-        await client.removeDiskDevice(this.name, deviceName).catch(() => {});
-        throw new MountError(`Failed to mount overlay: ${mountResult.stderr}`);
+      try {
+        await mountOverlay(this.backend, this.name, deviceName, options.target);
+      } catch (err) {
+        await this.backend.removeDiskDevice(this.name, deviceName).catch(() => {});
+        throw err;
       }
+      await this.backend.setInstanceConfig(this.name, `${OVERLAY_TARGET_PREFIX}${deviceName}`, options.target);
     } else if (mode === 'readonly') {
-      await client.addDiskDevice(this.name, deviceName, options.source, options.target, {
+      await this.backend.addDiskDevice(this.name, deviceName, options.source, options.target, {
         readonly: true,
         shift,
       });
     } else {
-      await client.addDiskDevice(this.name, deviceName, options.source, options.target, {
+      await this.backend.addDiskDevice(this.name, deviceName, options.source, options.target, {
         readonly: false,
         shift,
       });
@@ -228,6 +471,15 @@ export class Sandbox {
     };
   }
 
+  /**
+   * Copies this sandbox, or one of its snapshots, into a new running sandbox.
+   * Forwarded ports are dropped; host mounts are kept (overlays re-mounted on
+   * top of the copied upper layer) unless `mounts` is false.
+   */
+  async fork(options?: ForkOptions): Promise<Sandbox> {
+    return forkSandbox(this.backend, this.name, this.type, options);
+  }
+
   async unmount(target: string): Promise<void> {
     const mounts = await this.listMounts();
     const mount = mounts.find((m) => m.target === target);
@@ -237,95 +489,228 @@ export class Sandbox {
     }
 
     if (mount.mode === 'overlay') {
-      await client.execInInstance(this.name, ['umount', target]).catch(() => {});
-      await client.execInInstance(this.name, ['rm', '-rf', `/.overlay-work/${mount.device}`]).catch(() => {});
+      await this.backend.execInInstance(this.name, ['umount', target]).catch(() => {});
+      await this.backend.execInInstance(this.name, ['rm', '-rf', `/.overlay-work/${mount.device}`]).catch(() => {});
     }
 
-    await client.removeDiskDevice(this.name, mount.device);
+    await this.backend.removeDiskDevice(this.name, mount.device);
+    if (mount.mode === 'overlay') {
+      await this.backend.setInstanceConfig(this.name, `${OVERLAY_TARGET_PREFIX}${mount.device}`, '').catch(() => {});
+    }
   }
 
-  async listMounts(): Promise<MountInfo[]> {
-    const devices = await client.listDevices(this.name);
-    const mounts: MountInfo[] = [];
-
-    for (const [deviceName, device] of Object.entries(devices)) {
-      if (device.type !== 'disk' || !deviceName.startsWith('mount-')) {
-        continue;
+  /**
+   * Forwards a host port to `containerPort` with a proxy device. The host side
+   * listens on 127.0.0.1 unless `bind` says otherwise.
+   */
+  async exposePort(containerPort: number, options?: ExposePortOptions): Promise<PortMapping> {
+    const protocol = options?.protocol ?? 'tcp';
+    const host = options?.bind ?? '127.0.0.1';
+    for (const port of [containerPort, options?.hostPort]) {
+      if (port !== undefined && !(Number.isInteger(port) && port > 0 && port < 65536)) {
+        throw new InvalidArgumentError(`Invalid port '${port}'`);
       }
+    }
+    if (this.type === 'vm') {
+      throw new InvalidArgumentError('Port forwarding is only supported for containers');
+    }
 
-      let mode: MountMode = 'readwrite';
-      let target = device.path || '';
-
-      if (device.path?.startsWith('/.overlay-base/')) {
-        mode = 'overlay';
-        const overlayDevice = device.path.replace('/.overlay-base/', '');
-        const mountsOutput = await client.execInInstance(this.name, ['mount']);
-        const overlayLine = mountsOutput.stdout
-          .split('\n')
-          .find((line) => line.includes(`/.overlay-work/${overlayDevice}/upper`));
-        if (overlayLine) {
-          const match = overlayLine.match(/on (.+?) type overlay/);
-          if (match && match[1]) {
-            target = match[1];
-          }
-        }
-      } else if (device.readonly === 'true') {
-        mode = 'readonly';
-      }
+    const device = portDeviceName(containerPort, protocol);
+    const existing = (await this.listPorts()).find((p) => p.device === device);
+    if (existing) {
+      throw new InvalidArgumentError(
+        `Port ${protocol}/${containerPort} is already exposed on ${existing.host}:${existing.hostPort}`
+      );
+    }
+
+    const hostPort = options?.hostPort ?? (await findFreePort(host, protocol));
+    await this.backend.addProxyDevice(
+      this.name,
+      device,
+      formatAddress(protocol, host, hostPort),
+      formatAddress(protocol, '127.0.0.1', containerPort)
+    );
+    return { containerPort, protocol, host, hostPort, device };
+  }
 
-      if (device.source && target) {
-        mounts.push({
-          source: device.source,
-          target,
-          mode,
-          device: deviceName,
-        });
+  async unexposePort(containerPort: number, protocol: PortProtocol = 'tcp'): Promise<void> {
+    const device = portDeviceName(containerPort, protocol);
+    const ports = await this.listPorts();
+    if (!ports.some((p) => p.device === device)) {
+      throw new PortNotExposedError(containerPort, protocol);
+    }
+    await this.backend.removeProxyDevice(this.name, device);
+  }
+
+  async listPorts(): Promise<PortMapping[]> {
+    return readPorts(await this.backend.listDevices(this.name));
+  }
+
+  async listMounts(): Promise<MountInfo[]> {
+    const devices = await this.backend.listDevices(this.name);
+    const mounts = readMounts(devices);
+
+    for (const mount of mounts) {
+      if (mount.mode !== 'overlay') continue;
+      mount.target = (await this.backend.getInstanceConfig(this.name, `${OVERLAY_TARGET_PREFIX}${mount.device}`)) ?? '';
+      if (mount.target) continue;
+
+      // Overlays mounted before targets were recorded: ask the guest.
+      const mountsOutput = await this.backend.execInInstance(this.name, ['mount']);
+      const overlayLine = mountsOutput.stdout
+        .split('\n')
+        .find((line) => line.includes(`/.overlay-work/${mount.device}/upper`));
+      const match = overlayLine?.match(/on (.+?) type overlay/);
+      if (match && match[1]) {
+        mount.target = match[1];
       }
     }
 
-    return mounts;
+    return mounts.filter((m) => m.target);
   }
 }
 
-export const sandbox = {
-  async create(options?: SandboxOptions): Promise<Sandbox> {
-    const config = client.getConfig();
-    const name = options?.name ?? `sandbox-${nanoid(8)}`;
-    const type = options?.type ?? config.defaultType;
-    const image = options?.image ?? config.defaultImage;
-    const timeout = options?.timeout ?? 60000;
-
-    const existing = await client.getInstance(name);
-    if (existing) {
-      throw new NameConflictError(name);
+async function waitForRunning(backend: IncusBackend, name: string, timeout: number, operation: string): Promise<void> {
+  const startTime = Date.now();
+  while (Date.now() - startTime < timeout) {
+    const instance = await backend.getInstance(name);
+    if (instance?.state === 'running') {
+      return;
     }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  throw new TimeoutError(operation, timeout);
+}
 
-    await client.launchInstance(name, image, type, options?.limits, options?.profiles);
+async function forkSandbox(backend: IncusBackend, source: string, type: SandboxType, options?: ForkOptions): Promise<Sandbox> {
+  const name = options?.name ?? `${GENERATED_NAME_PREFIX}${nanoid(8)}`;
+  if (await backend.getInstance(name)) {
+    throw new NameConflictError(name);
+  }
+  if (options?.fromSnapshot && !(await backend.listSnapshots(source)).some((s) => s.name === options.fromSnapshot)) {
+    throw new InvalidArgumentError(`Sandbox '${source}' has no snapshot '${options.fromSnapshot}'`);
+  }
 
-    const startTime = Date.now();
-    while (Date.now() - startTime < timeout) {
-      const instance = await client.getInstance(name);
-      if (instance?.state === 'running') {
-        return new Sandbox(name, type);
+  const keepMounts = options?.mounts !== false;
+  await backend.copyInstance(source, name, {
+    snapshot: options?.fromSnapshot,
+    config: creationMetadata(options),
+    keepMounts,
+  });
+  const forked = new Sandbox(name, type, backend);
+  trackSandbox(forked, backend, options?.autoDestroy ?? false);
+
+  try {
+    await waitForRunning(backend, name, options?.timeout ?? 60000, 'sandbox fork');
+    // The copied NIC still points at the source's ACL; give the fork its own.
+    const policy = (await forked.info()).network;
+    if (policy && typeof policy === 'object') {
+      await backend.applyNetworkPolicy(name, await resolveNetworkPolicy(policy));
+    }
+    if (keepMounts) {
+      for (const mount of await forked.listMounts()) {
+        if (mount.mode === 'overlay') {
+          await mountOverlay(backend, name, mount.device, mount.target);
+        }
       }
-      await new Promise((resolve) => setTimeout(resolve, 500));
     }
+  } catch (err) {
+    await forked.destroy().catch(() => {});
+    throw err;
+  }
+  return forked;
+}
 
-    throw new TimeoutError('sandbox creation', timeout);
-  },
+/**
+ * The `sandbox` namespace of a client. Sandboxes it creates or looks up are
+ * bound to the client's backend at that moment.
+ */
+export function createSandboxApi(client: IncusClient) {
+  return {
+    async create(options?: SandboxOptions): Promise<Sandbox> {
+      const config = client.getConfig();
+      const backend = client.getBackend();
+      const name = options?.name ?? `${GENERATED_NAME_PREFIX}${nanoid(8)}`;
+      const type = options?.type ?? config.defaultType;
+      const image = options?.image ?? config.defaultImage;
+      const timeout = options?.timeout ?? 60000;
+
+      validateLimits(options?.limits, type);
+      const network = options?.network ? await resolveNetworkPolicy(options.network) : undefined;
+
+      const existing = await backend.getInstance(name);
+      if (existing) {
+        throw new NameConflictError(name);
+      }
 
-  async getByName(name: string): Promise<Sandbox> {
-    const instance = await client.getInstance(name);
-    if (!instance) {
-      throw new SandboxNotFoundError(name);
-    }
-    return new Sandbox(name, instance.type);
-  },
+      // With a policy it's created stopped, so it never runs with more network access than asked for.
+      await backend.launchInstance(name, image, type, options?.limits, options?.profiles, creationMetadata(options), !network);
+      const created = new Sandbox(name, type, backend);
+      trackSandbox(created, backend, options?.autoDestroy ?? false);
+      if (network) {
+        try {
+          await backend.applyNetworkPolicy(name, network);
+          await backend.startInstance(name);
+        } catch (err) {
+          await created.destroy().catch(() => {});
+          throw err;
+        }
+      }
 
-  async list(options?: ListOptions): Promise<SandboxInfo[]> {
-    return client.listInstances({
-      type: options?.type,
-      prefix: options?.prefix,
-    });
-  },
-};
+      await waitForRunning(backend, name, timeout, 'sandbox creation');
+      return created;
+    },
+
+    /** Forks an existing sandbox by name, like `sandbox.fork()`. */
+    async createFrom(source: string, snapshot?: string, options?: Omit<ForkOptions, 'fromSnapshot'>): Promise<Sandbox> {
+      const backend = client.getBackend();
+      const instance = await backend.getInstance(source);
+      if (!instance) {
+        throw new SandboxNotFoundError(source);
+      }
+      return forkSandbox(backend, source, instance.type, { ...options, fromSnapshot: snapshot });
+    },
+
+    async getByName(name: string): Promise<Sandbox> {
+      const backend = client.getBackend();
+      const instance = await backend.getInstance(name);
+      if (!instance) {
+        throw new SandboxNotFoundError(name);
+      }
+      if (name.startsWith(GENERATED_NAME_PREFIX)) {
+        // Whoever looks it up is using it, so it isn't abandoned even if its creator has exited.
+        await backend.setInstanceConfig(name, METADATA_KEYS.heartbeat, new Date().toISOString()).catch(() => {});
+      }
+      return new Sandbox(name, instance.type, backend);
+    },
+
+    async list(options?: ListOptions): Promise<SandboxInfo[]> {
+      const instances = await client.getBackend().listInstances({
+        type: options?.type,
+        state: options?.state,
+        prefix: options?.prefix,
+      });
+      if (!options?.labels) {
+        return instances;
+      }
+      const matches = createLabelMatcher(options.labels);
+      return instances.filter((i) => matches(i.labels));
+    },
+
+    tracked(): Sandbox[] {
+      return trackedSandboxes(client.getBackend());
+    },
+
+    async cleanup(options?: { all?: boolean }): Promise<void> {
+      await destroyTracked(client.getBackend(), options);
+    },
+
+    async gc(options?: GcOptions): Promise<GcResult> {
+      const backend = client.getBackend();
+      const keep = new Set(trackedSandboxes(backend).map((s) => s.name));
+      return collectGarbage(backend, options, keep);
+    },
+  };
+}
+
+export type SandboxApi = ReturnType<typeof createSandboxApi>;
@@ -0,0 +1,203 @@
+export interface TarEntry {
+  path: string;
+  type: 'file' | 'directory' | 'symlink';
+  mode: number;
+  mtime: Date;
+  content?: Uint8Array;
+  linkname?: string;
+}
+
+const BLOCK = 512;
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value, offset, length, 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'ascii');
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const field = header.subarray(offset, offset + length);
+  // GNU base-256 encoding for values that do not fit in octal.
+  if ((field[0]! & 0x80) !== 0) {
+    let value = field[0]! & 0x7f;
+    for (let i = 1; i < field.length; i++) value = value * 256 + field[i]!;
+    return value;
+  }
+  const text = field.toString('ascii').replace(/\0.*$/s, '').trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+}
+
+function header(name: string, typeflag: string, size: number, mode: number, mtime: number, linkname = '', prefix = ''): Buffer {
+  const block = Buffer.alloc(BLOCK);
+  writeString(block, name, 0, 100);
+  writeOctal(block, mode & 0o7777, 100, 8);
+  writeOctal(block, 0, 108, 8);
+  writeOctal(block, 0, 116, 8);
+  writeOctal(block, size, 124, 12);
+  writeOctal(block, mtime, 136, 12);
+  block.fill(0x20, 148, 156);
+  writeString(block, typeflag, 156, 1);
+  writeString(block, linkname, 157, 100);
+  writeString(block, 'ustar\u000000', 257, 8);
+  writeString(block, prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of block) checksum += byte;
+  block.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+  return block;
+}
+
+/** Splits a path into ustar name/prefix fields, or returns null if it needs a pax header. */
+function splitPath(path: string): { name: string; prefix: string } | null {
+  if (Buffer.byteLength(path) <= 100) return { name: path, prefix: '' };
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) return { name, prefix };
+  }
+  return null;
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const base = Buffer.byteLength(body);
+  let length = base + String(base).length;
+  if (String(length).length > String(base).length) length = base + String(length).length;
+  return `${length}${body}`;
+}
+
+export function packTar(entries: TarEntry[]): Buffer {
+  const chunks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const path = entry.type === 'directory' && !entry.path.endsWith('/') ? `${entry.path}/` : entry.path;
+    const content = entry.type === 'file' ? Buffer.from(entry.content ?? new Uint8Array()) : Buffer.alloc(0);
+    const linkname = entry.linkname ?? '';
+    const mtime = Math.floor(entry.mtime.getTime() / 1000);
+    const typeflag = entry.type === 'directory' ? '5' : entry.type === 'symlink' ? '2' : '0';
+
+    let split = splitPath(path);
+    const records: string[] = [];
+    if (!split) {
+      records.push(paxRecord('path', path));
+      split = { name: path.slice(0, 100), prefix: '' };
+    }
+    if (Buffer.byteLength(linkname) > 100) {
+      records.push(paxRecord('linkpath', linkname));
+    }
+    if (records.length > 0) {
+      const pax = Buffer.from(records.join(''), 'utf8');
+      chunks.push(header('PaxHeader', 'x', pax.length, 0o644, mtime), pax, padding(pax.length));
+    }
+
+    chunks.push(header(split.name, typeflag, content.length, entry.mode, mtime, linkname.slice(0, 100), split.prefix));
+    if (content.length > 0) {
+      chunks.push(content, padding(content.length));
+    }
+  }
+
+  chunks.push(Buffer.alloc(BLOCK * 2));
+  return Buffer.concat(chunks);
+}
+
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString('ascii'), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf8');
+    const eq = record.indexOf('=');
+    records[record.slice(0, eq)] = record.slice(eq + 1);
+    offset += length;
+  }
+  return records;
+}
+
+/**
+ * Reads ustar, pax and GNU archives. Hard links are resolved to copies of the
+ * file they point at; devices and FIFOs are skipped.
+ */
+export function unpackTar(archive: Uint8Array): TarEntry[] {
+  const data = Buffer.from(archive.buffer, archive.byteOffset, archive.byteLength);
+  const entries: TarEntry[] = [];
+  const byPath = new Map<string, TarEntry>();
+  let pax: Record<string, string> = {};
+  let longName: string | null = null;
+  let longLink: string | null = null;
+  let offset = 0;
+
+  while (offset + BLOCK <= data.length) {
+    const block = data.subarray(offset, offset + BLOCK);
+    if (block.every((byte) => byte === 0)) break;
+
+    const size = readOctal(block, 124, 12);
+    const typeflag = String.fromCharCode(block[156] || 0x30);
+    const body = data.subarray(offset + BLOCK, offset + BLOCK + size);
+    offset += BLOCK + size + padding(size).length;
+
+    if (typeflag === 'x') {
+      pax = { ...pax, ...parsePax(body) };
+      continue;
+    }
+    if (typeflag === 'g') continue;
+    if (typeflag === 'L') {
+      longName = body.toString('utf8').replace(/\0+$/, '');
+      continue;
+    }
+    if (typeflag === 'K') {
+      longLink = body.toString('utf8').replace(/\0+$/, '');
+      continue;
+    }
+
+    const prefix = readString(block, 345, 155);
+    const name = readString(block, 0, 100);
+    let path = pax['path'] ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+    const linkname = pax['linkpath'] ?? longLink ?? readString(block, 157, 100);
+    const mode = readOctal(block, 100, 8);
+    const mtime = new Date(Number(pax['mtime'] ?? readOctal(block, 136, 12)) * 1000);
+    pax = {};
+    longName = null;
+    longLink = null;
+
+    path = path.replace(/^\.\//, '').replace(/\/+$/, '');
+    if (path === '' || path === '.') {
+      path = '.';
+    }
+
+    let entry: TarEntry | null = null;
+    if (typeflag === '0' || typeflag === '7') {
+      entry = { path, type: 'file', mode, mtime, content: new Uint8Array(body) };
+    } else if (typeflag === '5') {
+      entry = { path, type: 'directory', mode, mtime };
+    } else if (typeflag === '2') {
+      entry = { path, type: 'symlink', mode, mtime, linkname };
+    } else if (typeflag === '1') {
+      const target = byPath.get(linkname.replace(/^\.\//, ''));
+      if (target?.type === 'file') {
+        entry = { ...target, path, mode, mtime };
+      }
+    }
+
+    if (entry) {
+      entries.push(entry);
+      byPath.set(entry.path, entry);
+    }
+  }
+
+  return entries;
+}
@@ -4,8 +4,37 @@ export type Language = 'python' | 'node' | 'bash' | 'ruby' | 'go';
 
 export interface SandboxLimits {
   cpu?: number;
+  /** CPU time share, e.g. `50%` or `25ms/100ms` (containers only) */
+  cpuAllowance?: string;
   memory?: string;
+  /** Whether the sandbox may swap (containers only) */
+  memorySwap?: boolean;
+  /** Process count cap (containers only) */
+  processes?: number;
   disk?: string;
+  diskIops?: number;
+  /** Root disk throughput per second, e.g. `50MB`; exclusive with `diskIops` */
+  diskBandwidth?: string;
+  /** Network rates in bit/s, e.g. `100Mbit` */
+  networkIngress?: string;
+  networkEgress?: string;
+}
+
+/**
+ * `'none'` removes the sandbox's NIC, `'full'` leaves it as the profile defines
+ * it, and an object limits egress to the listed CIDRs or hostnames.
+ */
+export type NetworkPolicy = 'none' | 'full' | { allowEgress: string[]; denyEgress?: string[] };
+
+export interface SetLimitsOptions {
+  /** Restart the sandbox if a change would otherwise wait for one */
+  restart?: boolean;
+}
+
+export interface LimitsUpdate {
+  limits: SandboxLimits;
+  /** Fields stored but not yet in effect until the sandbox restarts */
+  restartRequired: Array<keyof SandboxLimits>;
 }
 
 export interface SandboxOptions {
@@ -14,15 +43,46 @@ export interface SandboxOptions {
   name?: string;
   limits?: SandboxLimits;
   profiles?: string[];
+  labels?: Record<string, string>;
+  network?: NetworkPolicy;
   autoDestroy?: boolean;
+  /** Lifetime in milliseconds, after which `sandbox.gc()` may destroy it */
+  ttl?: number;
+  expiresAt?: Date;
+  /** Never collected as abandoned, for sandboxes no running process will heartbeat (as `isb create` makes) */
+  persistent?: boolean;
   timeout?: number;
   mounts?: MountOptions[];
 }
 
+export interface ForkOptions {
+  name?: string;
+  /** Branch from this snapshot instead of the sandbox's current state */
+  fromSnapshot?: string;
+  /** Merged over the source's labels */
+  labels?: Record<string, string>;
+  autoDestroy?: boolean;
+  ttl?: number;
+  expiresAt?: Date;
+  /** Like `SandboxOptions.persistent`; not inherited from the source */
+  persistent?: boolean;
+  /** Keep host mounts, re-mounting overlays in the copy (default true) */
+  mounts?: boolean;
+  timeout?: number;
+}
+
+/**
+ * Either a selector string (`team=ml,job in (1,2),!temp`) or an object where a
+ * string means equality, an array means "one of", and true/false mean the
+ * label must be present/absent.
+ */
+export type LabelSelector = string | Record<string, string | string[] | boolean>;
+
 export interface ListOptions {
   type?: SandboxType | 'all';
   state?: SandboxState;
   prefix?: string;
+  labels?: LabelSelector;
 }
 
 export interface DestroyOptions {
@@ -35,12 +95,16 @@ export interface StopOptions {
   timeout?: number;
 }
 
+export type CommandInput = string | Uint8Array | ReadableStream<Uint8Array>;
+
 export interface CommandOptions {
   cwd?: string;
   env?: Record<string, string>;
   user?: string;
   timeout?: number;
-  stdin?: string;
+  stdin?: CommandInput;
+  onStdout?: (chunk: string) => void;
+  onStderr?: (chunk: string) => void;
 }
 
 export interface CommandResult {
@@ -50,6 +114,53 @@ export interface CommandResult {
   durationMs: number;
 }
 
+export interface CommandOutputEvent {
+  stream: 'stdout' | 'stderr';
+  chunk: string;
+}
+
+export interface CommandStream extends AsyncIterable<CommandOutputEvent> {
+  result: Promise<CommandResult>;
+}
+
+export interface SpawnOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+  user?: string;
+}
+
+export interface ProcessInfo {
+  id: string;
+  pid: number;
+  command: string;
+  startedAt: Date;
+  running: boolean;
+  exitCode: number | null;
+}
+
+export interface ProcessLogs {
+  stdout: string;
+  stderr: string;
+}
+
+export interface TerminalOptions {
+  cols?: number;
+  rows?: number;
+  user?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  command?: string[];
+}
+
+export interface TerminalSession {
+  write(data: string | Uint8Array): void;
+  resize(cols: number, rows: number): void;
+  onData(handler: (data: Uint8Array) => void): void;
+  onExit(handler: (exitCode: number) => void): void;
+  wait(): Promise<number>;
+  close(): void;
+}
+
 export interface CodeOptions {
   language: Language;
   timeout?: number;
@@ -63,11 +174,39 @@ export interface CodeResult {
   durationMs: number;
 }
 
+export type FileContent = string | Uint8Array | ReadableStream<Uint8Array>;
+
+export type FileEncoding = 'utf8' | 'base64' | 'bytes';
+
 export interface WriteOptions {
   mode?: string;
   owner?: string;
 }
 
+export interface TransferOptions {
+  /** `.gitignore`-style patterns, relative to the directory being copied */
+  ignore?: string[];
+  /** Copy what symlinks point at instead of the links themselves */
+  followSymlinks?: boolean;
+  /** Time limit for the whole transfer in ms (default: none) */
+  timeout?: number;
+}
+
+export type FileWatchEventType = 'create' | 'modify' | 'delete' | 'rename';
+
+export interface FileWatchEvent {
+  type: FileWatchEventType;
+  path: string;
+}
+
+export interface WatchOptions {
+  recursive?: boolean;
+}
+
+export interface FileWatcher extends AsyncIterable<FileWatchEvent> {
+  close(): void;
+}
+
 export interface MkdirOptions {
   recursive?: boolean;
   mode?: string;
@@ -110,12 +249,188 @@ export interface MountInfo {
   device: string;
 }
 
+export interface ImageInfo {
+  fingerprint: string;
+  aliases: string[];
+  description?: string;
+  type: SandboxType;
+  architecture?: string;
+  /** Size in bytes */
+  size: number;
+  public: boolean;
+  createdAt: Date;
+  properties: Record<string, string>;
+}
+
+export interface PublishOptions {
+  /** Alias to point at the new image; an existing alias is moved over */
+  alias?: string;
+  description?: string;
+  /** Publish this snapshot instead of the sandbox's current state */
+  fromSnapshot?: string;
+  public?: boolean;
+  properties?: Record<string, string>;
+}
+
+export interface CopyImageOptions {
+  /** Local alias for the copy (default: the remote alias) */
+  alias?: string;
+  /** Let Incus refresh the copy when the remote image changes */
+  autoUpdate?: boolean;
+}
+
+export interface ProjectInfo {
+  name: string;
+  description: string;
+  /** Project config, e.g. `features.images` or `limits.instances` */
+  config: Record<string, string>;
+  /** API paths of what lives in the project (instances, images, profiles, ...) */
+  usedBy: string[];
+}
+
+export interface CreateProjectOptions {
+  description?: string;
+  /** Project config; Incus isolates images, profiles and storage volumes unless told otherwise */
+  config?: Record<string, string>;
+}
+
+/**
+ * One build step: a shell command, or a host file or directory copied into
+ * the sandbox. A directory's contents land in `to`; a file copied to a path
+ * ending in `/` keeps its name.
+ */
+export type RecipeStep = { run: string } | { copy: { from: string; to: string; ignore?: string[] } };
+
+export interface ImageRecipe {
+  /** Alias the built image is published under */
+  alias: string;
+  /** Image to build on (default: the configured default image) */
+  base?: string;
+  type?: SandboxType;
+  description?: string;
+  /** Environment for `run` steps */
+  env?: Record<string, string>;
+  /** Where `run` steps start and relative `copy` targets point (default /root) */
+  workdir?: string;
+  steps: RecipeStep[];
+}
+
+export interface BuildOptions {
+  /** Directory `copy` sources are relative to (default: the recipe file's directory, or the working directory) */
+  context?: string;
+  /** Reuse the step snapshots of earlier builds (default true) */
+  cache?: boolean;
+  /** Time limit for each `run` step, in ms (default 10 minutes) */
+  stepTimeout?: number;
+  onStep?: (event: BuildStepEvent) => void;
+  onStdout?: (chunk: string) => void;
+  onStderr?: (chunk: string) => void;
+}
+
+export interface BuildStepEvent {
+  /** 1-based position in the recipe */
+  index: number;
+  total: number;
+  description: string;
+  /** The step's result was taken from an earlier build */
+  cached: boolean;
+}
+
+export type PortProtocol = 'tcp' | 'udp';
+
+export interface ExposePortOptions {
+  /** Host port to listen on (default: a free one) */
+  hostPort?: number;
+  protocol?: PortProtocol;
+  /** Host address to listen on (default: 127.0.0.1) */
+  bind?: string;
+}
+
+export interface PortMapping {
+  containerPort: number;
+  protocol: PortProtocol;
+  host: string;
+  hostPort: number;
+  device: string;
+}
+
 export interface SandboxInfo {
   name: string;
   type: SandboxType;
   state: SandboxState;
   createdAt: Date;
   image?: string;
+  imageFingerprint?: string;
+  architecture?: string;
+  profiles: string[];
+  ipv4: string[];
+  ipv6: string[];
+  limits: SandboxLimits;
+  mounts: MountInfo[];
+  ports: PortMapping[];
+  snapshotCount: number;
+  network?: NetworkPolicy;
+  labels: Record<string, string>;
+  createdBy?: string;
+  expiresAt?: Date;
+  heartbeatAt?: Date;
+  persistent?: boolean;
+}
+
+/** A point-in-time usage sample. Byte counts are bytes; CPU time is cumulative. */
+export interface SandboxMetrics {
+  timestamp: Date;
+  /** CPU time consumed since start, in ms */
+  cpuTime: number;
+  memoryUsage: number;
+  memoryPeak: number;
+  /** Root disk usage */
+  diskUsage: number;
+  /** Bytes received/sent on all interfaces but loopback */
+  networkRx: number;
+  networkTx: number;
+  processes: number;
+}
+
+export interface MetricsWatcher extends AsyncIterable<SandboxMetrics> {
+  close(): void;
+}
+
+export interface PreviewGatewayOptions {
+  /** Port to listen on (default 8080; 0 picks a free one) */
+  port?: number;
+  /** Address to listen on (default 127.0.0.1) */
+  host?: string;
+  /** Domain under which `<port>-<sandbox>` hosts resolve (default localhost) */
+  domain?: string;
+  /** How long to reuse a sandbox's looked-up address, in ms (default 2000) */
+  cacheTtl?: number;
+}
+
+export interface PreviewGateway {
+  host: string;
+  port: number;
+  /** The preview URL for a port in a sandbox */
+  urlFor(sandbox: string, port: number): string;
+  close(): Promise<void>;
+}
+
+export interface GcOptions {
+  dryRun?: boolean;
+  prefix?: string;
+  /** How long an auto-named sandbox may go without a heartbeat, in ms (default 15 minutes) */
+  abandonedAfter?: number;
+}
+
+export interface GcCandidate {
+  name: string;
+  reason: 'expired' | 'abandoned';
+}
+
+export interface GcResult {
+  dryRun: boolean;
+  removed: GcCandidate[];
+  failed: Array<GcCandidate & { error: string }>;
 }
 
 export interface IncusConfig {
@@ -0,0 +1,223 @@
+import { randomBytes } from 'crypto';
+import type { Duplex } from 'stream';
+import { connectionFor } from './api';
+import type { Endpoint } from './api';
+import { IncusConnectionError } from './errors';
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_BINARY = 0x2;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+/**
+ * Just enough of RFC 6455 to drive Incus operation websockets: unfragmented
+ * writes, fragmented reads, ping/pong and the close handshake.
+ */
+export class WebSocketConnection {
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentBinary = false;
+  private closed = false;
+  private messageHandlers: Array<(data: Buffer, binary: boolean) => void> = [];
+  private backlog: Array<[Buffer, boolean]> = [];
+  private closeHandlers: Array<() => void> = [];
+
+  constructor(
+    private socket: Duplex,
+    head: Buffer = Buffer.alloc(0),
+    private mask: boolean = true
+  ) {
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+    if (head.length > 0) {
+      this.receive(head);
+    }
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  onMessage(handler: (data: Buffer, binary: boolean) => void): void {
+    this.messageHandlers.push(handler);
+    // Messages can arrive between the upgrade and the first listener; replay them.
+    const backlog = this.backlog;
+    this.backlog = [];
+    for (const [data, binary] of backlog) {
+      handler(data, binary);
+    }
+  }
+
+  onClose(handler: () => void): void {
+    if (this.closed) {
+      handler();
+      return;
+    }
+    this.closeHandlers.push(handler);
+  }
+
+  send(data: Buffer | string): boolean {
+    const binary = typeof data !== 'string';
+    return this.writeFrame(binary ? OP_BINARY : OP_TEXT, binary ? data : Buffer.from(data, 'utf8'));
+  }
+
+  async drain(): Promise<void> {
+    if (this.closed) return;
+    await new Promise<void>((resolve) => {
+      this.socket.once('drain', resolve);
+      this.onClose(resolve);
+    });
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.writeFrame(OP_CLOSE, Buffer.from([0x03, 0xe8]));
+    this.socket.end();
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): boolean {
+    if (this.closed || this.socket.destroyed) return false;
+
+    const length = payload.length;
+    const header: number[] = [0x80 | opcode];
+    const maskBit = this.mask ? 0x80 : 0;
+    if (length < 126) {
+      header.push(maskBit | length);
+    } else if (length < 0x10000) {
+      header.push(maskBit | 126, length >> 8, length & 0xff);
+    } else {
+      const big = Buffer.alloc(8);
+      big.writeBigUInt64BE(BigInt(length));
+      header.push(maskBit | 127, ...big);
+    }
+
+    if (!this.mask) {
+      return this.socket.write(Buffer.concat([Buffer.from(header), payload]));
+    }
+
+    const key = randomBytes(4);
+    const masked = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) {
+      masked[i] = payload[i]! ^ key[i & 3]!;
+    }
+    return this.socket.write(Buffer.concat([Buffer.from(header), key, masked]));
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0]!;
+      const second = this.buffer[1]!;
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const maskKey = masked ? this.buffer.subarray(offset, offset + 4) : null;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (maskKey) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] = payload[i]! ^ maskKey[i & 3]!;
+        }
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+      this.handleFrame(fin, opcode, payload);
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OP_PING:
+        this.writeFrame(OP_PONG, payload);
+        return;
+      case OP_PONG:
+        return;
+      case OP_CLOSE:
+        this.writeFrame(OP_CLOSE, payload.subarray(0, 2));
+        this.socket.end();
+        this.finish();
+        return;
+      case OP_TEXT:
+      case OP_BINARY:
+        this.fragments = [payload];
+        this.fragmentBinary = opcode === OP_BINARY;
+        break;
+      case OP_CONTINUATION:
+        this.fragments.push(payload);
+        break;
+      default:
+        return;
+    }
+
+    if (fin) {
+      const data = Buffer.concat(this.fragments);
+      this.fragments = [];
+      if (this.messageHandlers.length === 0) {
+        this.backlog.push([data, this.fragmentBinary]);
+        return;
+      }
+      for (const handler of this.messageHandlers) {
+        handler(data, this.fragmentBinary);
+      }
+    }
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const handler of this.closeHandlers) {
+      handler();
+    }
+  }
+}
+
+export async function connectWebSocket(endpoint: Endpoint, path: string): Promise<WebSocketConnection> {
+  const { send, options } = connectionFor(endpoint);
+
+  return new Promise((resolve, reject) => {
+    const req = send({
+      ...options,
+      path,
+      headers: {
+        Host: 'incus',
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Version': '13',
+        'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+      },
+    });
+
+    req.on('upgrade', (_res, sock, head) => {
+      resolve(new WebSocketConnection(sock, head));
+    });
+
+    req.on('response', (res) => {
+      res.resume();
+      reject(new IncusConnectionError(`Websocket upgrade for ${path} failed with HTTP ${res.statusCode}`));
+    });
+
+    req.on('error', (err) => {
+      reject(new IncusConnectionError(`Failed to connect websocket ${path}: ${err.message}`, err));
+    });
+
+    req.end();
+  });
+}
@@ -0,0 +1,279 @@
+import { InvalidArgumentError } from './errors';
+
+export type YamlValue = string | null | YamlValue[] | { [key: string]: YamlValue };
+
+/**
+ * Parses the block-style subset of YAML that recipe files use: nested
+ * mappings and sequences, plain and quoted scalars, `|`/`>` block scalars,
+ * single-line flow collections and comments. Scalars stay strings; anchors,
+ * tags and multi-document streams are rejected rather than misread, but the
+ * document may open with `---`.
+ */
+export function parseYaml(source: string): YamlValue {
+  return new YamlParser(source).parse();
+}
+
+class YamlParser {
+  private readonly lines: string[];
+  private pos = 0;
+
+  constructor(source: string) {
+    this.lines = source.replace(/^﻿/, '').split(/\r?\n/);
+  }
+
+  parse(): YamlValue {
+    this.documentStart();
+    const first = this.peek();
+    if (!first) return null;
+    if (first.indent !== 0) this.fail('unexpected indentation');
+    const value = this.block(0);
+    const rest = this.peek();
+    if (rest) this.fail(rest.indent > 0 ? 'unexpected indentation' : 'unexpected content');
+    return value;
+  }
+
+  private fail(message: string, line = this.pos): never {
+    throw new InvalidArgumentError(`Invalid YAML at line ${line + 1}: ${message}`);
+  }
+
+  /** Skips a `---` before the first content line; peek() rejects any later one. */
+  private documentStart(): void {
+    for (; this.pos < this.lines.length; this.pos++) {
+      const text = this.lines[this.pos]!.trimEnd();
+      if (/^---(\s+#.*)?$/.test(text)) {
+        this.pos++;
+        return;
+      }
+      if (text.trimStart() !== '' && !text.trimStart().startsWith('#')) return;
+    }
+  }
+
+  /** The next line with content, skipping blank and comment-only lines. */
+  private peek(): { indent: number; text: string } | null {
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      const text = line.trimStart();
+      if (text !== '' && !text.startsWith('#')) {
+        const indent = line.length - text.length;
+        if (line.slice(0, indent).includes('\t')) this.fail('tabs are not allowed in indentation');
+        if (indent === 0 && (text.startsWith('---') || text.startsWith('...'))) {
+          this.fail('multiple documents are not supported');
+        }
+        return { indent, text: text.trimEnd() };
+      }
+      this.pos++;
+    }
+    return null;
+  }
+
+  private block(indent: number): YamlValue {
+    const next = this.peek()!;
+    return isSequenceItem(next.text) ? this.sequence(indent) : this.mapping(indent);
+  }
+
+  private sequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    for (let next = this.peek(); next && next.indent === indent && isSequenceItem(next.text); next = this.peek()) {
+      const content = next.text.slice(1).trimStart();
+      if (content === '' || content.startsWith('#')) {
+        this.pos++;
+        items.push(this.nested(indent, false));
+      } else if (isSequenceItem(content) || startsMapping(content)) {
+        // Re-read the rest of the line as a block indented where it starts.
+        const column = indent + next.text.indexOf(content);
+        this.lines[this.pos] = ' '.repeat(column) + content;
+        items.push(this.block(column));
+      } else {
+        this.pos++;
+        items.push(this.scalar(content, indent));
+      }
+    }
+    return items;
+  }
+
+  private mapping(indent: number): { [key: string]: YamlValue } {
+    const map: { [key: string]: YamlValue } = {};
+    for (let next = this.peek(); next && next.indent === indent; next = this.peek()) {
+      if (isSequenceItem(next.text)) this.fail('expected a key, found a list item');
+      const [key, rest] = splitKey(next.text) ?? this.fail(`expected 'key: value', found '${next.text}'`);
+      if (Object.hasOwn(map, key)) this.fail(`duplicate key '${key}'`);
+      this.pos++;
+      map[key] = rest === '' || rest.startsWith('#') ? this.nested(indent, true) : this.scalar(rest, indent);
+    }
+    const next = this.peek();
+    if (next && next.indent > indent) this.fail('unexpected indentation');
+    return map;
+  }
+
+  /** The value under a `key:` or `-` with nothing after it. */
+  private nested(indent: number, allowSameIndentList: boolean): YamlValue {
+    const next = this.peek();
+    if (!next) return null;
+    if (next.indent > indent) return this.block(next.indent);
+    // `key:` followed by `- item` at the key's own indentation.
+    if (allowSameIndentList && next.indent === indent && isSequenceItem(next.text)) return this.sequence(indent);
+    return null;
+  }
+
+  private scalar(text: string, indent: number): YamlValue {
+    const line = this.pos - 1;
+    if (/^[|>]/.test(text)) return this.blockScalar(text, indent);
+    if (/^[&*!%@`]/.test(text)) this.fail(`unsupported syntax '${text[0]}'`, line);
+    if (text.startsWith('[') || text.startsWith('{')) return flowCollection(stripComment(text), (m) => this.fail(m, line));
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const [value, end] = quoted(text, 0, (m) => this.fail(m, line));
+      const rest = text.slice(end).trim();
+      if (rest !== '' && !rest.startsWith('#')) this.fail('unexpected text after quoted string', line);
+      return value;
+    }
+    const plain = stripComment(text);
+    return plain === '~' || plain === 'null' ? null : plain;
+  }
+
+  private blockScalar(header: string, indent: number): string {
+    const match = stripComment(header).match(/^([|>])([+-]?)$/);
+    if (!match) this.fail(`unsupported block scalar header '${header}'`, this.pos - 1);
+    const [, style, chomp] = match;
+
+    const raw: string[] = [];
+    let blockIndent = -1;
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      const text = line.trimStart();
+      if (text === '') {
+        raw.push('');
+        this.pos++;
+        continue;
+      }
+      const lineIndent = line.length - text.length;
+      if (blockIndent === -1) blockIndent = lineIndent;
+      if (lineIndent <= indent || lineIndent < blockIndent) break;
+      raw.push(line.slice(blockIndent));
+      this.pos++;
+    }
+
+    // Trailing blank lines belong to the chomping indicator, not the content.
+    let trailing = 0;
+    while (raw.length > 0 && raw[raw.length - 1] === '') {
+      raw.pop();
+      trailing++;
+    }
+    let body = style === '|' ? raw.join('\n') : fold(raw);
+    if (chomp === '+') body += '\n'.repeat(trailing + 1);
+    else if (chomp === '' && body !== '') body += '\n';
+    return body;
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ') || text.startsWith('-\t');
+}
+
+function startsMapping(text: string): boolean {
+  return !/^["'[{|>]/.test(text) && splitKey(text) !== null;
+}
+
+/** `key: rest` → `[key, rest]`; keys may be quoted. */
+function splitKey(text: string): [string, string] | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    let parsed: [string, number];
+    try {
+      parsed = quoted(text, 0, (m) => {
+        throw new Error(m);
+      });
+    } catch {
+      return null;
+    }
+    const [key, end] = parsed;
+    const rest = text.slice(end);
+    return /^\s*:(\s|$)/.test(rest) ? [key, rest.replace(/^\s*:/, '').trim()] : null;
+  }
+  const match = text.match(/^([^#\s][^:]*?)\s*:(?:\s+|$)(.*)$/);
+  return match ? [match[1]!, match[2]!.trim()] : null;
+}
+
+/** Drops a ` # comment` from a plain scalar. */
+function stripComment(text: string): string {
+  const index = text.search(/\s#/);
+  return (index === -1 ? text : text.slice(0, index)).trim();
+}
+
+/** Parses a quoted string starting at `start`; returns it and the index after the closing quote. */
+function quoted(text: string, start: number, fail: (message: string) => never): [string, number] {
+  const quote = text[start]!;
+  let out = '';
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote === "'") {
+      if (ch === "'" && text[i + 1] === "'") {
+        out += "'";
+        i++;
+      } else if (ch === "'") {
+        return [out, i + 1];
+      } else {
+        out += ch;
+      }
+    } else if (ch === '\\') {
+      const escape = text[++i];
+      const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/', ' ': ' ' };
+      if (escape === undefined || !(escape in escapes)) fail(`unsupported escape '\\${escape ?? ''}'`);
+      out += escapes[escape]!;
+    } else if (ch === '"') {
+      return [out, i + 1];
+    } else {
+      out += ch;
+    }
+  }
+  return fail('unterminated quoted string');
+}
+
+/** Folds `>` lines: single breaks become spaces, blank lines become breaks. */
+function fold(lines: string[]): string {
+  let out = '';
+  let breaks = 0;
+  for (const line of lines) {
+    if (line === '') {
+      breaks++;
+      continue;
+    }
+    if (out !== '') out += breaks > 0 ? '\n'.repeat(breaks) : ' ';
+    out += line;
+    breaks = 0;
+  }
+  return out;
+}
+
+/** `[a, "b"]` or `{k: v}` on one line, without nesting. */
+function flowCollection(text: string, fail: (message: string) => never): YamlValue {
+  const close = text[0] === '[' ? ']' : '}';
+  if (!text.endsWith(close)) fail(`unterminated flow collection '${text}'`);
+
+  const items: string[] = [];
+  let current = '';
+  const inner = text.slice(1, -1);
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner[i]!;
+    if (ch === '"' || ch === "'") {
+      const [, end] = quoted(inner, i, fail);
+      current += inner.slice(i, end);
+      i = end - 1;
+    } else if (ch === '[' || ch === '{') {
+      fail('nested flow collections are not supported');
+    } else if (ch === ',') {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim() !== '') items.push(current.trim());
+
+  const value = (item: string): string => (item.startsWith('"') || item.startsWith("'") ? quoted(item, 0, fail)[0] : item);
+  if (close === ']') return items.map(value);
+  const map: { [key: string]: YamlValue } = {};
+  for (const item of items) {
+    const [key, rest] = splitKey(item) ?? fail(`expected 'key: value' in '${text}'`);
+    map[key] = value(rest);
+  }
+  return map;
+}
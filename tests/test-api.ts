@@ -0,0 +1,738 @@
+import http from 'http';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  incus,
+  IncusClient,
+  Sandbox,
+  SandboxNotFoundError,
+  ImageNotFoundError,
+  CommandError,
+  InvalidArgumentError,
+} from '../src';
+import type { CommandOutputEvent } from '../src';
+import { WebSocketConnection } from '../src/websocket';
+
+const GREEN = '\x1b[32m';
+const RED = '\x1b[31m';
+const YELLOW = '\x1b[33m';
+const RESET = '\x1b[0m';
+
+function log(msg: string) {
+  console.log(`${YELLOW}[TEST]${RESET} ${msg}`);
+}
+
+function pass(msg: string) {
+  console.log(`${GREEN}[PASS]${RESET} ${msg}`);
+}
+
+function fail(msg: string, err?: unknown) {
+  console.log(`${RED}[FAIL]${RESET} ${msg}`);
+  if (err) console.error(err);
+}
+
+interface StandInInstance {
+  name: string;
+  type: string;
+  status: string;
+  created_at: string;
+  config: Record<string, string>;
+  devices: Record<string, Record<string, string>>;
+  snapshots: string[];
+  files: Map<string, Buffer>;
+}
+
+// Minimal stand-in for the Incus daemon: just enough of /1.0 to drive the SDK over a unix socket.
+function startStandIn(socket: string) {
+  const projects = new Map([['default', { description: 'Default Incus project', instances: new Map<string, StandInInstance>() }]]);
+  const operations = new Map<string, { status_code: number; err: string; metadata: unknown; done: Promise<void> }>();
+  const pendingExecs = new Map<string, { command: string[]; instance: StandInInstance; sockets: Map<string, WebSocketConnection> }>();
+  const logs = new Map<string, string>();
+  const acls = new Map<string, unknown[]>();
+  const images = new Map<string, { fingerprint: string; aliases: string[]; properties: Record<string, string> }>();
+  const requests: string[] = [];
+  const pulls: Record<string, string>[] = [];
+  let opCounter = 0;
+
+  const sync = (res: http.ServerResponse, metadata: unknown, headers?: Record<string, string>) => {
+    res.writeHead(200, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify({ type: 'sync', status_code: 200, metadata }));
+  };
+  const error = (res: http.ServerResponse, code: number, message: string) => {
+    res.writeHead(code, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ type: 'error', error_code: code, error: message }));
+  };
+  const async = (res: http.ServerResponse, metadata: unknown, err = '') => {
+    const id = `op-${++opCounter}`;
+    operations.set(id, { status_code: err ? 400 : 200, err, metadata, done: Promise.resolve() });
+    res.writeHead(202, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ type: 'async', status_code: 100, operation: `/1.0/operations/${id}`, metadata: { id } }));
+  };
+
+  const record = ({ files, snapshots, ...instance }: StandInInstance) => ({
+    ...instance,
+    profiles: ['default'],
+    architecture: 'x86_64',
+    snapshots: snapshots.map((name) => ({ name })),
+    state: {
+      network: {
+        lo: { addresses: [{ family: 'inet', address: '127.0.0.1', scope: 'local' }] },
+        eth0: {
+          addresses: [
+            { family: 'inet', address: '10.0.0.5', scope: 'global' },
+            { family: 'inet6', address: 'fe80::1', scope: 'link' },
+          ],
+        },
+      },
+    },
+  });
+
+  const exec = (instance: StandInInstance, command: string[], stdin = '') => {
+    if (command[0] === 'sh' && command[2] === 'cat') {
+      return { stdout: stdin, stderr: '', code: 0 };
+    }
+    if (command[0] === 'cat' && command[1]) {
+      const file = instance.files.get(command[1]);
+      return file ? { stdout: file.toString('utf8'), stderr: '', code: 0 } : { stdout: '', stderr: 'No such file', code: 1 };
+    }
+    if (command[0] === 'sh' && command[1] === '-c') {
+      const script = command[2] ?? '';
+      const exit = script.match(/^exit (\d+)$/);
+      if (exit) return { stdout: '', stderr: '', code: Number(exit[1]) };
+      const echo = script.match(/^echo (.*)$/);
+      if (echo) return { stdout: `${echo[1]!.replace(/^"|"$/g, '')}\n`, stderr: '', code: 0 };
+    }
+    return { stdout: '', stderr: `${command[0]}: not found`, code: 127 };
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks);
+    const url = new URL(req.url ?? '/', 'http://incus');
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    requests.push(`${req.method} ${url.pathname}`);
+
+    if (url.pathname === '/1.0') return sync(res, { api_version: '1.0' });
+
+    if (parts[1] === 'projects') {
+      if (req.method === 'POST') {
+        const { name, description } = JSON.parse(body.toString()) as { name: string; description: string };
+        if (projects.has(name)) return error(res, 409, 'Project already exists');
+        projects.set(name, { description, instances: new Map() });
+        return sync(res, {});
+      }
+      if (req.method === 'DELETE') {
+        const project = projects.get(parts[2]!);
+        if (!project) return error(res, 404, 'Project not found');
+        if (parts[2] === 'default' || project.instances.size > 0) return error(res, 400, 'Only empty projects can be removed');
+        projects.delete(parts[2]!);
+        return sync(res, {});
+      }
+      return sync(
+        res,
+        [...projects].map(([name, project]) => ({
+          name,
+          description: project.description,
+          config: {},
+          used_by: [...project.instances.keys()].map((instance) => `/1.0/instances/${instance}`),
+        }))
+      );
+    }
+
+    if (parts[1] === 'operations') {
+      const op = operations.get(parts[2]!);
+      if (!op) return error(res, 404, 'Operation not found');
+      await op.done;
+      return sync(res, { id: parts[2], class: 'task', status: op.err ? 'Failure' : 'Success', ...op });
+    }
+
+    const instances = projects.get(url.searchParams.get('project') ?? 'default')?.instances;
+    if (!instances) return error(res, 404, 'Project not found');
+
+    if (parts[1] === 'profiles' && parts[2] === 'default') {
+      return sync(res, {
+        name: 'default',
+        devices: {
+          root: { type: 'disk', path: '/', pool: 'default' },
+          eth0: { type: 'nic', network: 'incusbr0', name: 'eth0' },
+        },
+      });
+    }
+
+    if (parts[1] === 'network-acls') {
+      if (req.method === 'POST') {
+        const acl = JSON.parse(body.toString()) as { name: string; egress: unknown[] };
+        acls.set(acl.name, acl.egress);
+        return sync(res, {});
+      }
+      if (!acls.has(parts[2]!)) return error(res, 404, 'Network ACL not found');
+      if (req.method === 'DELETE') acls.delete(parts[2]!);
+      if (req.method === 'PUT') acls.set(parts[2]!, (JSON.parse(body.toString()) as { egress: unknown[] }).egress);
+      return sync(res, { name: parts[2], egress: acls.get(parts[2]!) });
+    }
+
+    if (parts[1] === 'images') {
+      const image = (fingerprint: string, aliases: string[], properties: Record<string, string>) => ({
+        fingerprint,
+        aliases: aliases.map((name) => ({ name, description: '' })),
+        architecture: 'x86_64',
+        type: 'container',
+        size: 1024,
+        public: false,
+        created_at: new Date().toISOString(),
+        properties,
+      });
+      if (parts[2] === 'aliases') {
+        if (req.method === 'POST') {
+          const { name, target } = JSON.parse(body.toString()) as { name: string; target: string };
+          images.get(target)?.aliases.push(name);
+          return sync(res, {});
+        }
+        const aliased = [...images.values()].find((i) => i.aliases.includes(parts[3]!));
+        if (!aliased) return error(res, 404, 'Image alias not found');
+        return sync(res, { name: parts[3], target: aliased.fingerprint });
+      }
+      if (parts.length === 2) {
+        if (req.method === 'GET') return sync(res, [...images.values()].map((i) => image(i.fingerprint, i.aliases, i.properties)));
+        const spec = JSON.parse(body.toString()) as { source: { type: string; name: string }; properties: Record<string, string> };
+        if (spec.source.type === 'image') {
+          const source = spec.source as unknown as Record<string, string>;
+          pulls.push(source);
+          const fingerprint = createHash('sha256').update(`${source.server}/${source.alias}`).digest('hex');
+          images.set(fingerprint, { fingerprint, aliases: [], properties: {} });
+          return async(res, { fingerprint });
+        }
+        const [owner, snapshot] = spec.source.name.split('/');
+        if (spec.source.type === 'snapshot' && !instances.get(owner!)?.snapshots.includes(snapshot!)) {
+          return async(res, {}, 'Snapshot not found');
+        }
+        const fingerprint = createHash('sha256').update(spec.source.name).digest('hex');
+        images.set(fingerprint, { fingerprint, aliases: [], properties: spec.properties });
+        return async(res, { fingerprint });
+      }
+      const stored = images.get(parts[2]!);
+      if (!stored) return error(res, 404, 'Image not found');
+      if (req.method === 'DELETE') {
+        images.delete(stored.fingerprint);
+        return async(res, {});
+      }
+      return sync(res, image(stored.fingerprint, stored.aliases, stored.properties));
+    }
+
+    if (parts[1] !== 'instances') return error(res, 404, 'Not found');
+
+    if (parts.length === 2) {
+      if (req.method === 'GET') {
+        return sync(res, [...instances.values()].map(record));
+      }
+      const spec = JSON.parse(body.toString()) as {
+        name: string;
+        type: string;
+        config: Record<string, string>;
+        devices: Record<string, Record<string, string>>;
+        source: { type: string; source?: string };
+        start: boolean;
+      };
+      if (spec.source.type === 'copy') {
+        const original = instances.get(spec.source.source!.split('/')[0]!);
+        if (!original) return error(res, 404, 'Instance not found');
+        instances.set(spec.name, {
+          ...structuredClone({ ...original, files: undefined }),
+          name: spec.name,
+          status: 'Stopped',
+          created_at: new Date().toISOString(),
+          snapshots: [],
+          files: new Map(original.files),
+        });
+        return async(res, {});
+      }
+      instances.set(spec.name, {
+        name: spec.name,
+        type: spec.type,
+        status: spec.start ? 'Running' : 'Stopped',
+        created_at: new Date().toISOString(),
+        config: spec.config,
+        devices: spec.devices,
+        snapshots: [],
+        files: new Map(),
+      });
+      return async(res, {});
+    }
+
+    const instance = instances.get(parts[2]!);
+    if (!instance) return error(res, 404, 'Instance not found');
+
+    if (parts.length === 3) {
+      if (req.method === 'GET') {
+        return sync(res, record(instance), { ETag: 'etag-1' });
+      }
+      if (req.method === 'DELETE') {
+        if (instance.status === 'Running') return error(res, 400, 'Instance is running');
+        instances.delete(instance.name);
+        return async(res, {});
+      }
+      const update = JSON.parse(body.toString()) as { config: Record<string, string>; devices: Record<string, Record<string, string>> };
+      if (req.method === 'PATCH') {
+        Object.assign(instance.config, update.config);
+        return sync(res, {});
+      }
+      instance.config = update.config;
+      instance.devices = update.devices;
+      return async(res, {});
+    }
+
+    switch (parts[3]) {
+      case 'state': {
+        if (req.method === 'GET') {
+          return sync(res, {
+            status: instance.status,
+            cpu: { usage: 2_500_000_000 },
+            memory: { usage: 50 * 1024 * 1024, usage_peak: 80 * 1024 * 1024 },
+            disk: { root: { usage: 4096 } },
+            network: {
+              lo: { counters: { bytes_received: 999, bytes_sent: 999 } },
+              eth0: { counters: { bytes_received: 1000, bytes_sent: 200 } },
+            },
+            processes: 7,
+          });
+        }
+        const { action } = JSON.parse(body.toString()) as { action: string };
+        instance.status = action === 'stop' ? 'Stopped' : 'Running';
+        return async(res, {});
+      }
+      case 'exec': {
+        const { command, 'wait-for-websocket': websockets } = JSON.parse(body.toString()) as {
+          command: string[];
+          'wait-for-websocket': boolean;
+        };
+        if (websockets) {
+          const id = `op-${++opCounter}`;
+          const fds = { '0': 's0', '1': 's1', '2': 's2', control: 'sc' };
+          let finish = () => {};
+          const op = { status_code: 200, err: '', metadata: {} as unknown, done: new Promise<void>((r) => (finish = r)) };
+          operations.set(id, op);
+          pendingExecs.set(id, { command, instance, sockets: new Map() });
+          op.done.then(() => pendingExecs.delete(id));
+          (op as { finish?: () => void }).finish = finish;
+          res.writeHead(202, { 'Content-Type': 'application/json' });
+          return res.end(JSON.stringify({ type: 'async', status_code: 100, operation: `/1.0/operations/${id}`, metadata: { id, metadata: { fds } } }));
+        }
+        const result = exec(instance, command);
+        const id = `exec-${opCounter + 1}`;
+        const base = `/1.0/instances/${instance.name}/logs/exec-output/${id}`;
+        logs.set(`${base}.stdout`, result.stdout);
+        logs.set(`${base}.stderr`, result.stderr);
+        return async(res, { return: result.code, output: { '1': `${base}.stdout`, '2': `${base}.stderr` } });
+      }
+      case 'logs': {
+        const key = url.pathname;
+        if (req.method === 'DELETE') {
+          logs.delete(key);
+          return sync(res, {});
+        }
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        return res.end(logs.get(key) ?? '');
+      }
+      case 'files': {
+        const path = url.searchParams.get('path') ?? '';
+        if (req.method === 'POST') {
+          if (req.headers['x-incus-type'] === 'file') instance.files.set(path, body);
+          return sync(res, {});
+        }
+        const file = instance.files.get(path);
+        if (!file) return error(res, 404, 'Not found');
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'X-Incus-type': 'file' });
+        return res.end(file);
+      }
+      case 'snapshots': {
+        if (req.method === 'POST') {
+          instance.snapshots.push((JSON.parse(body.toString()) as { name: string }).name);
+          return async(res, {});
+        }
+        if (req.method === 'DELETE') {
+          instance.snapshots = instance.snapshots.filter((s) => s !== parts[4]);
+          return async(res, {});
+        }
+        return sync(res, instance.snapshots.map((name) => ({ name, created_at: new Date().toISOString(), stateful: false })));
+      }
+    }
+
+    return error(res, 404, 'Not found');
+  });
+
+  server.on('upgrade', async (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://incus');
+    const id = url.pathname.split('/')[3]!;
+    const pending = pendingExecs.get(id);
+    if (!pending) return socket.destroy();
+
+    const accept = createHash('sha1')
+      .update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+      .digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+    const fd = { s0: '0', s1: '1', s2: '2', sc: 'control' }[url.searchParams.get('secret') ?? ''] ?? '';
+    pending.sockets.set(fd, new WebSocketConnection(socket, head, false));
+    if (pending.sockets.size < 4) return;
+
+    const op = operations.get(id)! as { metadata: unknown; finish?: () => void };
+    const input: Buffer[] = [];
+    pending.sockets.get('0')!.onMessage((data) => input.push(data));
+    await new Promise<void>((resolve) => pending.sockets.get('0')!.onClose(resolve));
+    const result = exec(pending.instance, pending.command, Buffer.concat(input).toString('utf8'));
+    for (const line of result.stdout.split(/(?<=\n)/)) {
+      if (line) pending.sockets.get('1')!.send(Buffer.from(line));
+    }
+    if (result.stderr) pending.sockets.get('2')!.send(Buffer.from(result.stderr));
+    pending.sockets.get('1')!.close();
+    pending.sockets.get('2')!.close();
+    op.metadata = { return: result.code };
+    op.finish?.();
+  });
+
+  return { server, requests, pulls };
+}
+
+async function runTests() {
+  console.log('\n========================================');
+  console.log('     incus-sandbox-sdk REST API Tests');
+  console.log('========================================\n');
+
+  const dir = await fs.mkdtemp(join(tmpdir(), 'incus-sdk-api-'));
+  const socket = join(dir, 'incus.socket');
+  const { server, requests, pulls } = startStandIn(socket);
+  await new Promise<void>((resolve) => server.listen(socket, resolve));
+  incus.setConfig({ socket });
+
+  let sandbox: Sandbox | null = null;
+  const testResults: { name: string; passed: boolean }[] = [];
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    if (ok) {
+      pass(`${name}: ${detail}`);
+    } else {
+      fail(`${name}: ${detail}`);
+    }
+    testResults.push({ name, passed: ok });
+  };
+
+  try {
+    log('Test 1: Check availability over the socket');
+    check('Availability', await incus.checkIncusAvailable(), 'GET /1.0 answered');
+
+    log('Test 2: Create sandbox');
+    sandbox = await incus.sandbox.create({ name: 'api-sandbox', limits: { cpu: 2, disk: '5GB', networkEgress: '10Mbit' } });
+    check('Create sandbox', requests.includes('POST /1.0/instances'), `launched ${sandbox.name}`);
+    const limits = (await sandbox.info()).limits;
+    check(
+      'Launch limits',
+      limits.cpu === 2 && limits.disk === '5GB' && limits.networkEgress === '10Mbit',
+      JSON.stringify(limits)
+    );
+    const update = await sandbox.setLimits({ memory: '1GB', diskIops: 300 });
+    check(
+      'Set limits',
+      update.limits.memory === '1GB' && update.limits.diskIops === 300 && update.limits.disk === '5GB',
+      JSON.stringify(update.limits)
+    );
+
+    log('Test 3: Run command and wait on the exec operation');
+    const echo = await sandbox.runCommand('echo "hello over socket"');
+    check('Run command', echo.stdout.trim() === 'hello over socket' && echo.exitCode === 0, JSON.stringify(echo.stdout));
+
+    log('Test 4: Exit code from operation metadata');
+    const exit = await sandbox.runCommand('exit 3');
+    check('Exit code', exit.exitCode === 3, `exit=${exit.exitCode}`);
+
+    log('Test 5: Stream output over exec websockets');
+    const events: CommandOutputEvent[] = [];
+    const stream = sandbox.streamCommand('echo "streamed line"');
+    for await (const event of stream) {
+      events.push(event);
+    }
+    const streamed = await stream.result;
+    check(
+      'Stream command',
+      events.length === 1 && events[0]?.stream === 'stdout' && streamed.stdout === 'streamed line\n',
+      JSON.stringify(events)
+    );
+    const missing = await sandbox.runCommand('nope', { onStderr: () => {} });
+    check('Streamed exit code', missing.exitCode === 127 && missing.stderr.includes('not found'), JSON.stringify(missing.stderr));
+
+    log('Test 6: Forward stdin over the exec websocket');
+    const large = 'x'.repeat(200 * 1024);
+    const piped = await sandbox.runCommand('cat', { stdin: new TextEncoder().encode(large) });
+    const fromStream = await sandbox.runCommand('cat', {
+      stdin: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('chunk-1 '));
+          controller.enqueue(new TextEncoder().encode('chunk-2'));
+          controller.close();
+        },
+      }),
+    });
+    check('Stdin bytes', piped.stdout === large, `${piped.stdout.length} bytes echoed`);
+    check('Stdin stream', fromStream.stdout === 'chunk-1 chunk-2', JSON.stringify(fromStream.stdout));
+
+    log('Test 7: Write and read a file');
+    await sandbox.fs.writeFile('/tmp/hello.txt', 'file over socket');
+    const content = await sandbox.fs.readFile('/tmp/hello.txt');
+    check('File round trip', content === 'file over socket', JSON.stringify(content));
+    const binary = Uint8Array.from({ length: 256 }, (_, i) => 255 - i);
+    await sandbox.fs.writeFile('/tmp/blob.bin', binary);
+    const bytes = await sandbox.fs.readFile('/tmp/blob.bin', 'bytes');
+    check('Binary round trip', Buffer.from(bytes).equals(Buffer.from(binary)), `${bytes.length} bytes`);
+
+    log('Test 8: Pull a file to the host');
+    const pulled = join(dir, 'pulled.txt');
+    await sandbox.fs.pull('/tmp/hello.txt', pulled);
+    check('Pull file', (await fs.readFile(pulled, 'utf8')) === 'file over socket', pulled);
+
+    log('Test 9: Snapshots');
+    await sandbox.snapshot('snap0');
+    const snapshots = await sandbox.listSnapshots();
+    check('Snapshots', snapshots.length === 1 && snapshots[0]?.name === 'snap0', snapshots.map((s) => s.name).join(','));
+
+    log('Test 10: Devices via GET/PUT');
+    await sandbox.mount({ source: dir, target: '/data', mode: 'readonly' });
+    const mounts = await sandbox.listMounts();
+    check('Mount device', mounts.length === 1 && mounts[0]?.mode === 'readonly', JSON.stringify(mounts));
+    await sandbox.unmount('/data');
+    check('Unmount device', (await sandbox.listMounts()).length === 0, 'device removed');
+    const backend = incus.getBackend();
+    await backend.setInstanceConfig(sandbox.name, 'user.isb.heartbeat', '2026-01-01T00:00:00Z');
+    check(
+      'Config key via PATCH',
+      requests.includes(`PATCH /1.0/instances/${sandbox.name}`) &&
+        (await backend.getInstanceConfig(sandbox.name, 'user.isb.heartbeat')) === '2026-01-01T00:00:00Z' &&
+        (await backend.getInstanceConfig(sandbox.name, 'user.isb.created-by')) !== null,
+      'single key merged'
+    );
+
+    log('Test 11: List instances');
+    const list = await incus.sandbox.list({ type: 'container' });
+    check('List', list.length === 1 && list[0]?.type === 'container', list.map((s) => s.name).join(','));
+    const stopped = await incus.sandbox.list({ state: 'stopped' });
+    const info = await sandbox.info();
+    check('State filter', stopped.length === 0, `${stopped.length} stopped`);
+    check(
+      'Instance details',
+      info.ipv4.join() === '10.0.0.5' && info.ipv6.length === 0 && info.snapshotCount === 1 && info.architecture === 'x86_64',
+      JSON.stringify({ ipv4: info.ipv4, ipv6: info.ipv6, snapshots: info.snapshotCount })
+    );
+
+    log('Test 12: Metrics from the state endpoint');
+    const metrics = await sandbox.metrics();
+    check(
+      'Metrics',
+      metrics.cpuTime === 2500 && metrics.memoryPeak === 80 * 1024 * 1024 && metrics.networkRx === 1000 && metrics.processes === 7,
+      JSON.stringify(metrics)
+    );
+
+    log('Test 13: Network policy via ACLs');
+    await sandbox.setNetworkPolicy({ allowEgress: ['192.0.2.0/24'] });
+    const policy = (await sandbox.info()).network;
+    const restricted = requests.includes('POST /1.0/network-acls') && typeof policy === 'object';
+    await sandbox.setNetworkPolicy('full');
+    check(
+      'Network ACL',
+      restricted && requests.includes('DELETE /1.0/network-acls/isb-api-sandbox') && (await sandbox.info()).network === 'full',
+      requests.filter((r) => r.includes('network-acls')).join(', ')
+    );
+
+    log('Test 14: Fork with a copy request');
+    await sandbox.exposePort(3000);
+    const fork = await sandbox.fork({ name: 'api-fork', labels: { branch: 'b' } });
+    const forkInfo = await fork.info();
+    check(
+      'Fork',
+      requests.includes('POST /1.0/instances') &&
+        forkInfo.state === 'running' &&
+        forkInfo.ports.length === 0 &&
+        forkInfo.labels.branch === 'b' &&
+        (await sandbox.listPorts()).length === 1,
+      JSON.stringify({ state: forkInfo.state, ports: forkInfo.ports, labels: forkInfo.labels })
+    );
+    await fork.destroy();
+
+    log('Test 15: Publish and resolve images');
+    const published = await sandbox.publish({ alias: 'api-image', description: 'From the API test' });
+    const resolved = await incus.images.get('api-image');
+    check(
+      'Publish',
+      requests.includes('POST /1.0/images') &&
+        resolved.fingerprint === published.fingerprint &&
+        resolved.description === 'From the API test' &&
+        !(await sandbox.listSnapshots()).some((s) => s.name.startsWith('isb-publish-')),
+      published.fingerprint.slice(0, 12)
+    );
+    try {
+      await incus.sandbox.create({ image: 'missing-alias' });
+      check('Missing image', false, 'no error thrown');
+    } catch (err) {
+      check('Missing image', err instanceof ImageNotFoundError, (err as Error).message);
+    }
+    await incus.images.delete('api-image');
+    check('Delete image', (await incus.images.list()).length === 0, 'image removed');
+
+    log('Test 16: Missing instance maps to SandboxNotFoundError');
+    try {
+      await incus.sandbox.getByName('missing');
+      check('Not found', false, 'no error thrown');
+    } catch (err) {
+      check('Not found', err instanceof SandboxNotFoundError, (err as Error).message);
+    }
+
+    log('Test 17: Clients with their own sockets');
+    const otherSocket = join(dir, 'other.socket');
+    const other = startStandIn(otherSocket);
+    await new Promise<void>((resolve) => other.server.listen(otherSocket, resolve));
+    try {
+      const client = new IncusClient({ socket: otherSocket });
+      const before = requests.length;
+      const remote = await client.sandbox.create({ name: 'api-other' });
+      const output = await remote.runCommand('echo remote');
+      check(
+        'Separate client',
+        other.requests.includes('POST /1.0/instances') &&
+          requests.length === before &&
+          output.stdout === 'remote\n' &&
+          !(await incus.sandbox.list()).some((i) => i.name === 'api-other') &&
+          client.sandbox.tracked().length === 1,
+        `${other.requests.length} requests on the second socket`
+      );
+      await remote.destroy({ force: true });
+    } finally {
+      other.server.close();
+    }
+
+    log('Test 18: Projects');
+    await incus.projects.create('tenant-a', { description: 'Tenant A' });
+    const tenant = new IncusClient({ socket, project: 'tenant-a' });
+    const tenantBox = await tenant.sandbox.create({ name: 'api-tenant' });
+    await tenantBox.fs.writeFile('/tmp/owner.txt', 'tenant-a');
+    await tenantBox.snapshot('before');
+    const tenantEcho = await tenantBox.runCommand('echo scoped');
+    const visible = (await incus.sandbox.list()).map((i) => i.name);
+    check(
+      'Project scoping',
+      (await tenant.sandbox.list()).map((i) => i.name).join() === 'api-tenant' &&
+        !visible.includes('api-tenant') &&
+        (await tenantBox.fs.readFile('/tmp/owner.txt')) === 'tenant-a' &&
+        (await tenantBox.listSnapshots()).length === 1 &&
+        tenantEcho.stdout === 'scoped\n',
+      `default project sees ${visible.join(', ')}`
+    );
+    const listed = (await incus.projects.list()).find((p) => p.name === 'tenant-a');
+    check(
+      'List projects',
+      listed?.description === 'Tenant A' && listed.usedBy.includes('/1.0/instances/api-tenant'),
+      JSON.stringify(listed)
+    );
+    try {
+      await incus.projects.delete('tenant-a');
+      check('Delete non-empty project', false, 'no error thrown');
+    } catch (err) {
+      check('Delete non-empty project', err instanceof CommandError, (err as Error).message);
+    }
+    await tenantBox.destroy({ force: true });
+    await incus.projects.delete('tenant-a');
+    check('Delete project', !(await incus.projects.list()).some((p) => p.name === 'tenant-a'), 'tenant-a removed');
+
+    log('Test 19: Remotes from the incus config');
+    const confDir = join(dir, 'incus-conf');
+    await fs.mkdir(confDir);
+    await fs.writeFile(
+      join(confDir, 'config.yml'),
+      [
+        'default-remote: local',
+        'remotes:',
+        '  lab:',
+        `    addr: unix://${socket}`,
+        '    protocol: incus',
+        '  images:',
+        '    addr: https://images.linuxcontainers.org',
+        '    protocol: simplestreams',
+        '    public: true',
+        '  ubuntu:',
+        '    addr: https://cloud-images.ubuntu.com/releases',
+        '    protocol: simplestreams',
+        '    public: true',
+        'aliases: {}',
+      ].join('\n')
+    );
+    process.env.INCUS_CONF = confDir;
+    try {
+      const lab = new IncusClient({ remote: 'lab', socket: join(dir, 'missing.socket') });
+      check('Remote over a socket', await lab.checkIncusAvailable(), `lab resolved to ${socket}`);
+      for (const [remote, expected] of [
+        ['nowhere', 'Unknown Incus remote'],
+        ['images', 'image server'],
+      ]) {
+        try {
+          await new IncusClient({ remote }).sandbox.list();
+          check(`Remote '${remote}'`, false, 'no error thrown');
+        } catch (err) {
+          check(
+            `Remote '${remote}'`,
+            err instanceof InvalidArgumentError && (err as Error).message.includes(expected!),
+            (err as Error).message
+          );
+        }
+      }
+
+      await incus.images.copyFromRemote('ubuntu:24.04');
+      check(
+        'Image remote from config',
+        pulls.at(-1)?.server === 'https://cloud-images.ubuntu.com/releases' && pulls.at(-1)?.protocol === 'simplestreams',
+        JSON.stringify(pulls.at(-1))
+      );
+      try {
+        await incus.images.copyFromRemote('nowhere:debian/12');
+        check('Unknown image remote', false, 'no error thrown');
+      } catch (err) {
+        check('Unknown image remote', (err as Error).message.includes("Unknown image remote 'nowhere'"), (err as Error).message);
+      }
+    } finally {
+      delete process.env.INCUS_CONF;
+    }
+  } catch (err) {
+    fail('Unexpected error during tests', err);
+    testResults.push({ name: 'Unexpected error', passed: false });
+  } finally {
+    if (sandbox) {
+      log('Cleaning up: destroying sandbox');
+      try {
+        await sandbox.destroy({ force: true });
+        check('Destroy sandbox', !(await incus.sandbox.list()).length, 'instance deleted');
+      } catch (err) {
+        fail('Failed to destroy sandbox', err);
+        testResults.push({ name: 'Destroy sandbox', passed: false });
+      }
+    }
+    server.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  console.log('\n========================================');
+  console.log('              Test Summary');
+  console.log('========================================');
+  const passed = testResults.filter((t) => t.passed).length;
+  const total = testResults.length;
+  console.log(`\nPassed: ${passed}/${total}`);
+
+  if (passed === total) {
+    console.log(`\n${GREEN}All tests passed!${RESET}\n`);
+  } else {
+    console.log(`\n${RED}Some tests failed:${RESET}`);
+    testResults.filter((t) => !t.passed).forEach((t) => {
+      console.log(`  - ${t.name}`);
+    });
+    console.log('');
+    process.exitCode = 1;
+  }
+}
+
+runTests().catch(console.error);
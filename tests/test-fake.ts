@@ -0,0 +1,796 @@
+import * as fs from 'fs/promises';
+import http from 'http';
+import net from 'net';
+import { hostname, tmpdir } from 'os';
+import { join } from 'path';
+import {
+  incus,
+  IncusClient,
+  Sandbox,
+  FakeIncusBackend,
+  SandboxNotRunningError,
+  NameConflictError,
+  InvalidArgumentError,
+  PortNotExposedError,
+  ImageNotFoundError,
+  CommandError,
+  ProcessNotFoundError,
+} from '../src';
+import type { BuildStepEvent } from '../src';
+
+const GREEN = '\x1b[32m';
+const RED = '\x1b[31m';
+const YELLOW = '\x1b[33m';
+const RESET = '\x1b[0m';
+
+function log(msg: string) {
+  console.log(`${YELLOW}[TEST]${RESET} ${msg}`);
+}
+
+function pass(msg: string) {
+  console.log(`${GREEN}[PASS]${RESET} ${msg}`);
+}
+
+function fail(msg: string, err?: unknown) {
+  console.log(`${RED}[FAIL]${RESET} ${msg}`);
+  if (err) console.error(err);
+}
+
+async function runTests() {
+  console.log('\n========================================');
+  console.log('   incus-sandbox-sdk Fake Backend Tests');
+  console.log('========================================\n');
+
+  const backend = new FakeIncusBackend();
+  backend.onExec(({ command }) => {
+    if (command[0] === 'python3') {
+      return { stdout: '4\n', stderr: '', exitCode: 0 };
+    }
+    if (command[0] === 'mount' || command[0] === 'umount') {
+      return { stdout: '', stderr: '', exitCode: 0 };
+    }
+    return undefined;
+  });
+  incus.setBackend(backend);
+
+  const dir = await fs.mkdtemp(join(tmpdir(), 'incus-sdk-fake-'));
+  let sandbox: Sandbox | null = null;
+  const testResults: { name: string; passed: boolean }[] = [];
+
+  const check = (name: string, ok: boolean, detail: string) => {
+    if (ok) {
+      pass(`${name}: ${detail}`);
+    } else {
+      fail(`${name}: ${detail}`);
+    }
+    testResults.push({ name, passed: ok });
+  };
+
+  try {
+    log('Test 1: Create sandbox');
+    sandbox = await incus.sandbox.create({
+      name: 'fake-sandbox',
+      limits: { cpu: 1, memory: '512MB', processes: 200, disk: '2GB', diskIops: 500, networkIngress: '50Mbit' },
+    });
+    const root = backend.instances.get('fake-sandbox')?.devices['root'];
+    check('Create sandbox', backend.instances.get('fake-sandbox')?.config['limits.memory'] === '512MB', sandbox.name);
+    check(
+      'Hard caps',
+      root?.size === '2GB' && root['limits.max'] === '500iops' && root.pool === 'default',
+      JSON.stringify((await sandbox.info()).limits)
+    );
+    try {
+      await incus.sandbox.create({ name: 'fake-io', limits: { diskIops: 100, diskBandwidth: '10MB' } });
+      check('Exclusive disk I/O limits', false, 'no error thrown');
+    } catch (err) {
+      check('Exclusive disk I/O limits', err instanceof InvalidArgumentError, (err as Error).message);
+    }
+
+    log('Test 2: Name conflicts are rejected');
+    try {
+      await incus.sandbox.create({ name: 'fake-sandbox' });
+      check('Name conflict', false, 'no error thrown');
+    } catch (err) {
+      check('Name conflict', err instanceof NameConflictError, (err as Error).message);
+    }
+
+    log('Test 3: Run command');
+    const echo = await sandbox.runCommand('echo "Hello from fake"');
+    check('Run command', echo.stdout === 'Hello from fake\n' && echo.exitCode === 0, JSON.stringify(echo.stdout));
+
+    log('Test 4: Exit code, env vars and chaining');
+    const exit = await sandbox.runCommand('exit 42');
+    const env = await sandbox.runCommand('echo $MY_VAR && false || echo fallback', { env: { MY_VAR: 'hello-env' } });
+    check('Exit code', exit.exitCode === 42, `exit=${exit.exitCode}`);
+    check('Env vars', env.stdout === 'hello-env\nfallback\n', JSON.stringify(env.stdout));
+
+    log('Test 5: Stdin');
+    const stdin = await sandbox.runCommand('cat > /tmp/stdin.txt && cat /tmp/stdin.txt', { stdin: 'piped input' });
+    check('Stdin', stdin.stdout === 'piped input', JSON.stringify(stdin.stdout));
+
+    log('Test 6: Filesystem round trip');
+    await sandbox.fs.writeFile('/tmp/test.txt', 'Hello, World!', { mode: '600' });
+    const content = await sandbox.fs.readFile('/tmp/test.txt');
+    const stat = await sandbox.fs.stat('/tmp/test.txt');
+    check('Write/read file', content === 'Hello, World!', JSON.stringify(content));
+    check('File stat', stat.type === 'file' && stat.size === 13 && stat.mode === '600', JSON.stringify(stat));
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe, 0x80]);
+    await sandbox.fs.writeFile('/tmp/image.png', new Blob([png]).stream());
+    const bytes = await sandbox.fs.readFile('/tmp/image.png', 'bytes');
+    const base64 = await sandbox.fs.readFile('/tmp/image.png', 'base64');
+    check('Binary stream round trip', Buffer.from(bytes).equals(Buffer.from(png)), `${bytes.length} bytes`);
+    check('Base64 read', base64 === Buffer.from(png).toString('base64'), base64);
+
+    log('Test 7: mkdir, readdir, exists and rm');
+    await sandbox.fs.mkdir('/tmp/testdir/nested', { recursive: true });
+    await sandbox.runCommand('echo one > /tmp/testdir/file1.txt; echo two >> /tmp/testdir/file1.txt');
+    const files = await sandbox.fs.readdir('/tmp/testdir');
+    check('readdir', files.join(',') === 'file1.txt,nested', files.join(','));
+    check('Redirects', (await sandbox.fs.readFile('/tmp/testdir/file1.txt')) === 'one\ntwo\n', 'append works');
+    await sandbox.fs.rm('/tmp/testdir', { recursive: true });
+    check('rm', !(await sandbox.fs.exists('/tmp/testdir/nested')), 'directory tree removed');
+
+    log('Test 8: Run code through interpreters');
+    const bash = await sandbox.runCode('echo from-bash', { language: 'bash' });
+    const python = await sandbox.runCode('print(2 + 2)', { language: 'python' });
+    check('Run Bash code', bash.output === 'from-bash\n', JSON.stringify(bash.output));
+    check('onExec handler', python.output === '4\n', JSON.stringify(python.output));
+
+    log('Test 9: Push and pull host files');
+    await fs.writeFile(join(dir, 'local.txt'), 'from host');
+    await sandbox.fs.push(join(dir, 'local.txt'), '/opt/app/local.txt');
+    await sandbox.fs.pull('/opt/app/local.txt', join(dir, 'pulled.txt'));
+    check('Push/pull', (await fs.readFile(join(dir, 'pulled.txt'), 'utf8')) === 'from host', 'parents created on push');
+
+    log('Test 10: Directory upload and download');
+    const tree = join(dir, 'repo');
+    await fs.mkdir(join(tree, 'src'), { recursive: true });
+    await fs.mkdir(join(tree, 'node_modules', 'dep'), { recursive: true });
+    await fs.writeFile(join(tree, 'src', 'main.sh'), 'echo main', { mode: 0o755 });
+    await fs.writeFile(join(tree, 'src', 'debug.log'), 'noise');
+    await fs.writeFile(join(tree, 'src', 'keep.log'), 'kept');
+    await fs.writeFile(join(tree, 'node_modules', 'dep', 'index.js'), '');
+    await fs.symlink('src/main.sh', join(tree, 'run'));
+    await sandbox.fs.uploadDir(tree, '/workspace', { ignore: ['node_modules/', '*.log', '!keep.log'] });
+    const uploaded = await sandbox.fs.readdir('/workspace/src');
+    check('uploadDir', uploaded.join(',') === 'keep.log,main.sh' && !(await sandbox.fs.exists('/workspace/node_modules')), uploaded.join(','));
+
+    const copy = join(dir, 'copy');
+    await sandbox.fs.downloadDir('/workspace', copy);
+    const mode = (await fs.stat(join(copy, 'src', 'main.sh'))).mode & 0o777;
+    const link = await fs.readlink(join(copy, 'run'));
+    check('downloadDir', mode === 0o755 && link === 'src/main.sh', `mode=${mode.toString(8)} link=${link}`);
+
+    await sandbox.fs.mkdir('/workspace/node_modules/dep', { recursive: true });
+    await sandbox.fs.writeFile('/workspace/node_modules/dep/index.js', '');
+    const requested: Array<{ exclude?: string[]; timeout?: number } | undefined> = [];
+    const downloadArchive = backend.downloadArchive.bind(backend);
+    backend.downloadArchive = (name, remoteDir, options) => {
+      requested.push(options);
+      return downloadArchive(name, remoteDir, options);
+    };
+    await sandbox.fs.downloadDir('/workspace', join(dir, 'pruned'), { ignore: ['*.sh', '!src/main.sh', 'node_modules/'] });
+    backend.downloadArchive = downloadArchive;
+    const pruned = (await fs.readdir(join(dir, 'pruned', 'src'))).sort();
+    check(
+      'downloadDir excludes at source',
+      requested[0]?.exclude?.join() === 'node_modules/' &&
+        requested[0]?.timeout === 0 &&
+        pruned.join(',') === 'keep.log,main.sh' &&
+        !(await fs.stat(join(dir, 'pruned', 'node_modules')).catch(() => null)),
+      `${JSON.stringify(requested[0])} ${pruned.join(',')}`
+    );
+
+    const outside = join(dir, 'outside');
+    await fs.mkdir(outside);
+    const fakeFiles = backend.instances.get(sandbox.name)!.files;
+    const entry = (type: 'file' | 'directory' | 'symlink', content: string) => ({
+      type,
+      content: Buffer.from(content),
+      mode: type === 'file' ? 0o644 : 0o755,
+      uid: 0,
+      gid: 0,
+      mtime: new Date(),
+    });
+    fakeFiles.set('/evil', entry('directory', ''));
+    fakeFiles.set('/evil/link', entry('symlink', outside));
+    fakeFiles.set('/evil/link/pwned.txt', entry('file', 'pwned'));
+    try {
+      await sandbox.fs.downloadDir('/evil', join(dir, 'evil-copy'));
+      check('downloadDir through symlink', false, 'no error thrown');
+    } catch (err) {
+      const written = await fs.readdir(outside);
+      check('downloadDir through symlink', err instanceof CommandError && written.length === 0, (err as Error).message);
+    }
+
+    log('Test 11: Watch for file changes');
+    await sandbox.fs.mkdir('/watched/sub', { recursive: true });
+    const watcher = sandbox.fs.watch('/watched', { recursive: true });
+    const seen: string[] = [];
+    const collected = (async () => {
+      for await (const event of watcher) {
+        seen.push(`${event.type} ${event.path}`);
+        if (event.type === 'delete') watcher.close();
+      }
+    })();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await sandbox.fs.writeFile('/watched/sub/a.txt', 'one');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await sandbox.fs.writeFile('/watched/sub/a.txt', 'two');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await sandbox.fs.rm('/watched/sub/a.txt');
+    await collected;
+    check(
+      'Watch',
+      seen.join(',') === 'create /watched/sub/a.txt,modify /watched/sub/a.txt,delete /watched/sub/a.txt',
+      seen.join(',')
+    );
+
+    log('Test 12: Snapshots restore filesystem state');
+    await sandbox.snapshot('clean');
+    await sandbox.fs.writeFile('/tmp/after.txt', 'later');
+    await sandbox.restore('clean');
+    const snapshots = await sandbox.listSnapshots();
+    check('Snapshot restore', !(await sandbox.fs.exists('/tmp/after.txt')) && snapshots.length === 1, 'file gone');
+
+    log('Test 13: Devices');
+    await sandbox.mount({ source: dir, target: '/data', mode: 'readonly' });
+    const mounts = await sandbox.listMounts();
+    check('Mount', mounts.length === 1 && mounts[0]?.mode === 'readonly', JSON.stringify(mounts));
+    await sandbox.unmount('/data');
+    check('Unmount', (await sandbox.listMounts()).length === 0, 'device removed');
+    await sandbox.mount({ source: dir, target: '/work' });
+    const overlay = (await sandbox.info()).mounts;
+    check('Overlay target', overlay.length === 1 && overlay[0]?.target === '/work', JSON.stringify(overlay));
+    await sandbox.unmount('/work');
+    const forwarded = await sandbox.exposePort(3000);
+    const ports = await sandbox.listPorts();
+    check(
+      'Expose port',
+      forwarded.hostPort > 0 && ports.length === 1 && ports[0]?.hostPort === forwarded.hostPort && ports[0]?.device === 'port-tcp-3000',
+      JSON.stringify(ports)
+    );
+    await sandbox.unexposePort(3000);
+    try {
+      await sandbox.unexposePort(3000);
+      check('Unexpose port', false, 'no error thrown');
+    } catch (err) {
+      check('Unexpose port', err instanceof PortNotExposedError && (await sandbox.listPorts()).length === 0, (err as Error).message);
+    }
+
+    log('Test 14: List and get by name');
+    const list = await incus.sandbox.list({ prefix: 'fake-' });
+    const retrieved = await incus.sandbox.getByName('fake-sandbox');
+    check('List/get', list.length === 1 && retrieved.name === 'fake-sandbox', list.map((s) => s.name).join(','));
+    const stopped = await incus.sandbox.list({ state: 'stopped' });
+    const details = await retrieved.info();
+    check(
+      'Instance details',
+      stopped.length === 0 && details.ipv4.length === 1 && details.profiles.join() === 'default' && details.snapshotCount === 1,
+      JSON.stringify({ ipv4: details.ipv4, profiles: details.profiles, snapshots: details.snapshotCount })
+    );
+
+    log('Test 15: Interactive terminal');
+    const terminal = await sandbox.openTerminal({ cols: 100, rows: 30, cwd: '/tmp' });
+    let screen = '';
+    terminal.onData((data) => (screen += Buffer.from(data).toString('utf8')));
+    terminal.resize(120, 40);
+    terminal.write('pwd\r');
+    terminal.write('exit 3\r');
+    const terminalExit = await terminal.wait();
+    check('Terminal', screen.includes('pwd\r\n/tmp\r\n') && terminalExit === 3, JSON.stringify(screen));
+
+    log('Test 16: Scoped and auto-destroyed sandboxes');
+    {
+      await using scoped = await incus.sandbox.create({ name: 'fake-scoped' });
+      check('Tracked', incus.sandbox.tracked().some((s) => s.name === scoped.name), 'registered on create');
+    }
+    await incus.sandbox.create({ name: 'fake-auto', autoDestroy: true });
+    await incus.sandbox.cleanup();
+    check(
+      'Auto destroy',
+      !backend.instances.has('fake-scoped') && !backend.instances.has('fake-auto') && backend.instances.has('fake-sandbox'),
+      [...backend.instances.keys()].join(',')
+    );
+
+    log('Test 17: Garbage collection');
+    const stale = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    await backend.launchInstance('fake-expired', 'ubuntu/24.04', 'container', undefined, undefined, {
+      'user.isb.expires-at': stale,
+    });
+    await backend.launchInstance('sandbox-orphan', 'ubuntu/24.04', 'container', undefined, undefined, {
+      'user.isb.heartbeat': stale,
+    });
+    await backend.launchInstance('fake-persistent', 'ubuntu/24.04', 'container', undefined, undefined, {
+      'user.isb.heartbeat': stale,
+    });
+    await backend.launchInstance('sandbox-running', 'ubuntu/24.04', 'container', undefined, undefined, {
+      'user.isb.heartbeat': stale,
+      'user.isb.created-by': `${hostname()}:${process.pid}`,
+    });
+    await backend.launchInstance('sandbox-reused', 'ubuntu/24.04', 'container', undefined, undefined, {
+      'user.isb.heartbeat': stale,
+    });
+    await backend.launchInstance('sandbox-cli', 'ubuntu/24.04', 'container', undefined, undefined, {
+      'user.isb.heartbeat': stale,
+      'user.isb.persistent': 'true',
+    });
+    await incus.sandbox.getByName('sandbox-reused');
+    await backend.createSnapshot('sandbox-orphan', 'snap');
+    const ttl = await incus.sandbox.create({ name: 'fake-ttl', ttl: 60 * 60 * 1000 });
+    const info = (await incus.sandbox.list({ prefix: 'fake-ttl' }))[0];
+    const dry = await incus.sandbox.gc({ dryRun: true });
+    const gc = await incus.sandbox.gc();
+    check('TTL recorded', !!info?.expiresAt && info.expiresAt.getTime() > Date.now(), String(info?.expiresAt));
+    check(
+      'Garbage collection',
+      dry.removed.length === 2 &&
+        gc.removed.map((c) => `${c.name}:${c.reason}`).join(',') === 'fake-expired:expired,sandbox-orphan:abandoned' &&
+        backend.instances.has('fake-persistent') &&
+        backend.instances.has('sandbox-running') &&
+        backend.instances.has('sandbox-reused') &&
+        backend.instances.has('sandbox-cli') &&
+        backend.instances.has('fake-ttl'),
+      [...backend.instances.keys()].join(',')
+    );
+    const pinned = await incus.sandbox.create({ name: 'fake-pinned', persistent: true });
+    const pinnedFork = await pinned.fork({ name: 'fake-pinned-fork' });
+    check(
+      'Persistent sandboxes',
+      (await pinned.info()).persistent === true && (await pinnedFork.info()).persistent === undefined,
+      'recorded, not inherited by forks'
+    );
+    await Promise.all([pinned.destroy(), pinnedFork.destroy()]);
+    await ttl.destroy();
+    await backend.deleteInstance('fake-persistent', true);
+    await backend.deleteInstance('sandbox-running', true);
+    await backend.deleteInstance('sandbox-reused', true);
+    await backend.deleteInstance('sandbox-cli', true);
+
+    log('Test 18: Labels and selectors');
+    const ml = await incus.sandbox.create({ name: 'fake-ml', labels: { team: 'ml', job: '123' } });
+    const web = await incus.sandbox.create({ name: 'fake-web', labels: { team: 'web', job: '124', temp: 'yes' } });
+    const byTeam = await incus.sandbox.list({ labels: { team: 'ml', job: '123' } });
+    const bySet = await incus.sandbox.list({ labels: 'job in (123, 124),!temp' });
+    const byExists = await incus.sandbox.list({ labels: { team: ['web', 'ops'], temp: true } });
+    check('Labels stored', backend.instances.get('fake-ml')?.config['user.label.team'] === 'ml', JSON.stringify(byTeam[0]?.labels));
+    check(
+      'Label selectors',
+      byTeam.map((i) => i.name).join() === 'fake-ml' &&
+        bySet.map((i) => i.name).join() === 'fake-ml' &&
+        byExists.map((i) => i.name).join() === 'fake-web',
+      [byTeam, bySet, byExists].map((l) => l.map((i) => i.name).join('+')).join(' | ')
+    );
+    await ml.destroy();
+    await web.destroy();
+
+    log('Test 19: Stopped sandboxes reject commands');
+    await sandbox.stop();
+    try {
+      await sandbox.runCommand('true');
+      check('Not running', false, 'no error thrown');
+    } catch (err) {
+      check('Not running', err instanceof SandboxNotRunningError, (err as Error).message);
+    }
+    await sandbox.start();
+    check('Start', (await sandbox.getState()) === 'running', 'running again');
+
+    log('Test 20: Live limit changes');
+    const scaled = await sandbox.setLimits({ cpu: 4, memory: '2GB', networkEgress: '10Mbit' });
+    check(
+      'Scale up',
+      scaled.restartRequired.length === 0 && scaled.limits.cpu === 4 && scaled.limits.disk === '2GB' && scaled.limits.networkEgress === '10Mbit',
+      JSON.stringify(scaled)
+    );
+    try {
+      await sandbox.setLimits({ memory: '2 gigs' });
+      check('Invalid limit', false, 'no error thrown');
+    } catch (err) {
+      check('Invalid limit', err instanceof InvalidArgumentError, (err as Error).message);
+    }
+    const vm = await incus.sandbox.create({ name: 'fake-vm', type: 'vm' });
+    const vmUpdate = await vm.setLimits({ cpu: 2, disk: '20GB' });
+    check('VM restart required', vmUpdate.restartRequired.join() === 'cpu', JSON.stringify(vmUpdate.restartRequired));
+    await vm.destroy();
+
+    log('Test 21: Metrics');
+    const sampler = sandbox.watchMetrics(10);
+    const samples: number[] = [];
+    for await (const sample of sampler) {
+      samples.push(sample.cpuTime);
+      await sandbox.runCommand('true');
+      if (samples.length === 3) sampler.close();
+    }
+    const metrics = await sandbox.metrics();
+    check('Metrics', metrics.processes === 1 && metrics.memoryUsage > 0 && metrics.diskUsage > 0, JSON.stringify(metrics));
+    check('Watch metrics', samples.length === 3 && samples[2]! > samples[0]!, samples.join(','));
+
+    log('Test 22: Network policies');
+    const applyPolicy = backend.applyNetworkPolicy.bind(backend);
+    let stateAtPolicy: string | undefined;
+    backend.applyNetworkPolicy = async (name, resolved) => {
+      stateAtPolicy = backend.instances.get(name)?.state;
+      return applyPolicy(name, resolved);
+    };
+    const offline = await incus.sandbox.create({ name: 'fake-offline', network: 'none' });
+    backend.applyNetworkPolicy = applyPolicy;
+    check('Offline', backend.instances.get('fake-offline')?.devices['eth0']?.type === 'none', 'NIC masked');
+    check(
+      'Policy before start',
+      stateAtPolicy === 'stopped' && backend.instances.get('fake-offline')?.state === 'running',
+      `policy applied while ${stateAtPolicy}`
+    );
+    await offline.setNetworkPolicy({ allowEgress: ['10.0.0.0/8', 'localhost'], denyEgress: ['10.1.0.0/16'] });
+    const acl = backend.networkAcls.get('isb-fake-offline');
+    const nic = backend.instances.get('fake-offline')?.devices['eth0'];
+    check(
+      'Egress allowlist',
+      nic?.['security.acls'] === 'isb-fake-offline' &&
+        acl?.map((r) => `${r.action}:${r.destination}`).join(' ').startsWith('reject:10.1.0.0/16 allow:10.0.0.0/8 allow:127.0.0.1/32') === true,
+      JSON.stringify(acl)
+    );
+    await offline.setNetworkPolicy('full');
+    check(
+      'Full network',
+      !backend.instances.get('fake-offline')?.devices['eth0'] && !backend.networkAcls.has('isb-fake-offline') && (await offline.info()).network === 'full',
+      'profile NIC restored, ACL removed'
+    );
+    try {
+      await offline.setNetworkPolicy({ allowEgress: ['10.0.0.0/33'] });
+      check('Invalid CIDR', false, 'no error thrown');
+    } catch (err) {
+      check('Invalid CIDR', err instanceof InvalidArgumentError, (err as Error).message);
+    }
+    await offline.destroy();
+
+    log('Test 23: Preview gateway');
+    const upstream = http.createServer((req, res) => res.end(`hello ${req.url} via ${req.headers['x-forwarded-host']}`));
+    upstream.on('upgrade', (_req, socket: net.Socket, head: Buffer) => {
+      socket.write('HTTP/1.1 101 Switching Protocols\r\nUpgrade: echo\r\nConnection: Upgrade\r\n\r\n');
+      socket.write(head);
+      socket.pipe(socket);
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve));
+    const appPort = (upstream.address() as net.AddressInfo).port;
+    const preview = await incus.sandbox.create({ name: 'fake-web' });
+    backend.instances.get('fake-web')!.addresses.ipv4 = ['127.0.0.1'];
+    const gateway = await incus.createPreviewGateway({ port: 0, cacheTtl: 0 });
+    const fetchVia = (host: string) =>
+      new Promise<{ status: number; body: string }>((resolve, reject) => {
+        http
+          .get({ host: '127.0.0.1', port: gateway.port, path: '/index.html', headers: { host } }, (res) => {
+            let body = '';
+            res.on('data', (chunk) => (body += chunk));
+            res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+          })
+          .on('error', reject);
+      });
+    try {
+      const host = `${appPort}-fake-web.localhost:${gateway.port}`;
+      const proxied = await fetchVia(host);
+      check('Gateway proxy', proxied.status === 200 && proxied.body === `hello /index.html via ${host}`, proxied.body);
+      check('Gateway URL', gateway.urlFor('fake-web', 3000) === `http://3000-fake-web.localhost:${gateway.port}/`, gateway.urlFor('fake-web', 3000));
+
+      const echoed = await new Promise<string>((resolve, reject) => {
+        const socket = net.connect(gateway.port, '127.0.0.1', () => {
+          socket.write(`GET /ws HTTP/1.1\r\nHost: ${host}\r\nConnection: Upgrade\r\nUpgrade: echo\r\n\r\n`);
+          socket.write('ping');
+        });
+        let data = '';
+        socket.on('data', (chunk) => {
+          data += chunk;
+          if (data.endsWith('ping')) {
+            socket.destroy();
+            resolve(data);
+          }
+        });
+        socket.on('error', reject);
+      });
+      check('Gateway upgrade', echoed.startsWith('HTTP/1.1 101') && echoed.endsWith('\r\n\r\nping'), JSON.stringify(echoed));
+
+      const missing = await fetchVia(`${appPort}-fake-nope.localhost`);
+      check('Gateway unknown sandbox', missing.status === 404 && missing.body.includes('fake-nope'), `status ${missing.status}`);
+      await preview.stop();
+      const stopped = await fetchVia(host);
+      check('Gateway stopped sandbox', stopped.status === 502 && stopped.body.includes('fake-web&#39; is stopped'), `status ${stopped.status}`);
+    } finally {
+      await gateway.close();
+      await new Promise((resolve) => upstream.close(resolve));
+      await preview.destroy();
+    }
+
+    log('Test 24: Warm pool');
+    const before = backend.instances.size;
+    const warm = await incus.pool.create({ size: 2, labels: { role: 'pool' } });
+    check('Pool warm', warm.stats().idle === 2 && backend.instances.size === before + 2, JSON.stringify(warm.stats()));
+    const leased = await warm.acquire();
+    await leased.fs.writeFile('/tmp/dirty.txt', 'left behind');
+    check('Pool acquire', warm.stats().inUse === 1 && (await leased.info()).labels.role === 'pool', JSON.stringify(warm.stats()));
+    await warm.release(leased);
+    await warm.ready();
+    const again = await warm.acquire();
+    const reset = !(await leased.fs.exists('/tmp/dirty.txt')) && backend.instances.has(leased.name);
+    check('Pool reset', reset && backend.instances.size === before + 2, JSON.stringify(warm.stats()));
+    const burst = await Promise.all([warm.acquire(), warm.acquire()]);
+    check('Pool overflow', warm.stats().overflow === 1 && backend.instances.size === before + 3, JSON.stringify(warm.stats()));
+    await Promise.all(burst.map((s) => warm.release(s)));
+    await warm.ready();
+    check('Pool overflow released', warm.stats().idle === 1 && warm.stats().overflow === 0, JSON.stringify(warm.stats()));
+    try {
+      await warm.release(sandbox);
+      check('Pool foreign release', false, 'no error thrown');
+    } catch (err) {
+      check('Pool foreign release', err instanceof InvalidArgumentError, (err as Error).message);
+    }
+    await warm.release(again);
+    await warm.close();
+    check('Pool close', backend.instances.size === before, `${backend.instances.size - before} left`);
+
+    const unhealthy = new Set<string>();
+    const checked = await incus.pool.create({ size: 1, reset: 'destroy', healthCheckInterval: 20, healthCheck: (s) => !unhealthy.has(s.name) });
+    const [first] = await incus.sandbox.list({ prefix: 'sandbox-' });
+    unhealthy.add(first!.name);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await checked.ready();
+    const replaced = await checked.acquire();
+    check('Pool health check', replaced.name !== first!.name && !backend.instances.has(first!.name), `${first!.name} -> ${replaced.name}`);
+    await checked.release(replaced);
+    await checked.close();
+
+    log('Test 25: Fork');
+    const origin = await incus.sandbox.create({ name: 'fake-origin', labels: { task: 't1' } });
+    await origin.fs.writeFile('/tmp/a.txt', 'a');
+    await origin.mount({ source: dir, target: '/project' });
+    await origin.snapshot('checkpoint');
+    await origin.fs.writeFile('/tmp/b.txt', 'b');
+    await origin.exposePort(8000);
+    const branch = await origin.fork({ name: 'fake-branch', labels: { branch: '1' } });
+    const branchInfo = await branch.info();
+    check(
+      'Fork live',
+      (await branch.fs.exists('/tmp/b.txt')) &&
+        branchInfo.labels.task === 't1' &&
+        branchInfo.labels.branch === '1' &&
+        branchInfo.ports.length === 0 &&
+        branchInfo.mounts.some((m) => m.mode === 'overlay' && m.target === '/project'),
+      JSON.stringify({ labels: branchInfo.labels, mounts: branchInfo.mounts, ports: branchInfo.ports })
+    );
+    const rewound = await incus.sandbox.createFrom('fake-origin', 'checkpoint', { mounts: false });
+    check(
+      'Fork from snapshot',
+      (await rewound.fs.exists('/tmp/a.txt')) && !(await rewound.fs.exists('/tmp/b.txt')) && (await rewound.listMounts()).length === 0,
+      rewound.name
+    );
+    try {
+      await origin.fork({ fromSnapshot: 'nope' });
+      check('Fork missing snapshot', false, 'no error thrown');
+    } catch (err) {
+      check('Fork missing snapshot', err instanceof InvalidArgumentError, (err as Error).message);
+    }
+    await Promise.all([branch.destroy(), rewound.destroy(), origin.destroy()]);
+
+    log('Test 26: Images');
+    const baker = await incus.sandbox.create({ name: 'fake-baker' });
+    await baker.fs.writeFile('/opt/toolchain/version', '1.2.3');
+    const baked = await baker.publish({ alias: 'toolchain', description: 'Baked toolchain' });
+    check(
+      'Publish running sandbox',
+      baked.aliases.includes('toolchain') && baked.description === 'Baked toolchain' && (await baker.listSnapshots()).length === 0,
+      baked.fingerprint.slice(0, 12)
+    );
+    const fromImage = await incus.sandbox.create({ name: 'fake-from-image', image: 'toolchain' });
+    check('Launch from image', (await fromImage.fs.readFile('/opt/toolchain/version')) === '1.2.3', 'files carried over');
+    const copied = await incus.images.copyFromRemote('images:alpine/3.19');
+    await incus.images.alias(copied.fingerprint.slice(0, 12), 'toolchain');
+    check(
+      'Image aliases',
+      (await incus.images.get('alpine/3.19')).fingerprint === copied.fingerprint &&
+        (await incus.images.get('toolchain')).fingerprint === copied.fingerprint &&
+        (await incus.images.get(baked.fingerprint)).aliases.length === 0,
+      (await incus.images.list()).map((i) => i.aliases.join('+') || i.fingerprint.slice(0, 6)).join(', ')
+    );
+    await incus.images.delete(baked.fingerprint);
+    incus.setBackend(new FakeIncusBackend({ images: ['images:ubuntu/24.04'] }));
+    try {
+      await incus.sandbox.create({ image: 'no-such-alias' });
+      check('Missing image', false, 'no error thrown');
+    } catch (err) {
+      check('Missing image', err instanceof ImageNotFoundError, (err as Error).message);
+    } finally {
+      incus.setBackend(backend);
+    }
+    await Promise.all([baker.destroy(), fromImage.destroy()]);
+
+    log('Test 27: Image builds');
+    const recipeDir = join(dir, 'recipe');
+    await fs.mkdir(join(recipeDir, 'src'), { recursive: true });
+    await fs.writeFile(join(recipeDir, 'src', 'main.py'), 'print("hi")\n');
+    await fs.writeFile(join(recipeDir, 'VERSION'), '1\n');
+    const recipePath = join(recipeDir, 'recipe.yaml');
+    await fs.writeFile(
+      recipePath,
+      [
+        '# Toolchain for the fake test',
+        '---',
+        'alias: fake-tools',
+        'description: Built by the fake test',
+        'workdir: /app',
+        'env:',
+        '  GREETING: hello',
+        'steps:',
+        '  - run: echo $GREETING > greeting.txt',
+        '  - copy:',
+        '      from: ./src',
+        '      to: src',
+        '  - copy: ./VERSION /etc/',
+      ].join('\n')
+    );
+    const build = async (options?: { cache?: boolean }) => {
+      const steps: BuildStepEvent[] = [];
+      const image = await incus.images.build(recipePath, { ...options, onStep: (step) => steps.push(step) });
+      return { image, cached: steps.filter((s) => s.cached).length, ran: steps.filter((s) => !s.cached).length };
+    };
+
+    const initial = await build();
+    const built = await incus.sandbox.create({ name: 'fake-built', image: 'fake-tools' });
+    check(
+      'Build from recipe',
+      initial.ran === 3 &&
+        (await built.fs.readFile('/app/greeting.txt')) === 'hello\n' &&
+        (await built.fs.readFile('/app/src/main.py')) === 'print("hi")\n' &&
+        (await built.fs.readFile('/etc/VERSION')) === '1\n',
+      `${initial.ran} steps run`
+    );
+    const unchanged = await build();
+    check('Unchanged rebuild', unchanged.cached === 3 && unchanged.image.fingerprint === initial.image.fingerprint, 'all cached');
+    await fs.writeFile(join(recipeDir, 'VERSION'), '2\n');
+    const changed = await build();
+    const buildBoxes = (await incus.sandbox.list({ prefix: 'isb-build-' })).map((i) => i.name);
+    check(
+      'Rebuild after change',
+      changed.cached === 2 &&
+        changed.ran === 1 &&
+        !(await incus.images.list()).some((i) => i.fingerprint === initial.image.fingerprint) &&
+        buildBoxes.length === 1 &&
+        (await incus.sandbox.getByName(buildBoxes[0]!).then((b) => b.getState())) === 'stopped',
+      `${changed.cached} cached, ${changed.ran} run`
+    );
+    const instanceCount = backend.instances.size;
+    const uncached = await build({ cache: false });
+    check(
+      'Build without cache',
+      uncached.ran === 3 && backend.instances.size === instanceCount,
+      `${uncached.ran} steps run in a throwaway sandbox`
+    );
+    try {
+      await incus.images.build({ alias: 'fake-broken', steps: [{ run: 'true' }, { run: 'false' }] });
+      check('Failing step', false, 'no error thrown');
+    } catch (err) {
+      const stopped = (await incus.sandbox.list({ prefix: 'isb-build-', state: 'stopped' })).length === 2;
+      check('Failing step', err instanceof CommandError && stopped, (err as Error).message);
+    }
+    try {
+      await incus.images.build({ alias: 'fake-typo', steps: [{ rn: 'true' } as never] });
+      check('Invalid recipe', false, 'no error thrown');
+    } catch (err) {
+      check('Invalid recipe', err instanceof InvalidArgumentError, (err as Error).message);
+    }
+    await built.destroy();
+    for (const info of await incus.sandbox.list({ prefix: 'isb-build-' })) {
+      await (await incus.sandbox.getByName(info.name)).destroy();
+    }
+
+    log('Test 28: Independent clients');
+    const otherBackend = new FakeIncusBackend();
+    const other = new IncusClient({ defaultImage: 'images:debian/12' }, otherBackend);
+    const mine = await incus.sandbox.create({ name: 'fake-shared' });
+    const theirs = await other.sandbox.create({ name: 'fake-shared' });
+    check(
+      'Separate backends',
+      backend.instances.has('fake-shared') &&
+        otherBackend.instances.size === 1 &&
+        (await theirs.info()).image === 'images:debian/12' &&
+        incus.getConfig().defaultImage !== 'images:debian/12',
+      `${otherBackend.instances.size} instance(s) on the other backend`
+    );
+    check(
+      'Separate tracking',
+      other.sandbox.tracked().length === 1 && incus.sandbox.tracked().some((t) => t.name === 'fake-shared'),
+      other.sandbox.tracked().map((t) => t.name).join(', ')
+    );
+    await theirs.destroy();
+    check(
+      'Destroy stays on its client',
+      backend.instances.has('fake-shared') &&
+        otherBackend.instances.size === 0 &&
+        incus.sandbox.tracked().some((t) => t.name === 'fake-shared'),
+      `${backend.instances.size} instance(s) on the default backend`
+    );
+    const otherPool = await other.pool.create({ size: 1 });
+    check('Pool on its client', otherBackend.instances.size === 1, JSON.stringify(otherPool.stats()));
+    await otherPool.close();
+    await mine.destroy();
+
+    log('Test 29: Projects');
+    await incus.projects.create('fake-tenant', { config: { 'limits.instances': '5' } });
+    const projectNames = (await incus.projects.list()).map((p) => p.name);
+    check('Create project', projectNames.join() === 'default,fake-tenant', projectNames.join(', '));
+    try {
+      await incus.projects.delete('default');
+      check('Delete default project', false, 'no error thrown');
+    } catch (err) {
+      check('Delete default project', err instanceof CommandError, (err as Error).message);
+    }
+    await incus.projects.delete('fake-tenant');
+    check('Delete project', !backend.projects.has('fake-tenant'), `${backend.projects.size} project(s) left`);
+
+    log('Test 30: Background processes');
+    const worker = await incus.sandbox.create({ name: 'fake-procs' });
+    const job = await worker.spawn('echo started; cat missing.txt; exit 3');
+    const server = await worker.spawn('sleep 30', { cwd: '/tmp' });
+    check('Spawn', job.pid > 0 && server.pid !== job.pid && (await server.isRunning()), `pids ${job.pid}, ${server.pid}`);
+    check('Wait', (await job.wait({ interval: 10 })) === 3, 'exit code 3');
+    const jobLogs = await job.logs();
+    check('Process logs', jobLogs.stdout === 'started\n' && jobLogs.stderr === 'cat: missing.txt: No such file or directory\n', JSON.stringify(jobLogs));
+    const listed = await worker.processes();
+    check(
+      'List processes',
+      listed.length === 2 &&
+        listed.find((p) => p.id === job.id)?.exitCode === 3 &&
+        listed.find((p) => p.id === server.id)?.command === 'sleep 30' &&
+        listed.find((p) => p.id === server.id)?.running === true,
+      listed.map((p) => `${p.id}:${p.running}`).join(', ')
+    );
+    const reattached = await (await incus.sandbox.getByName('fake-procs')).getProcess(server.id);
+    check('Reattach process', reattached.pid === server.pid && (await reattached.isRunning()), `${reattached.id} (${reattached.pid})`);
+    await reattached.kill();
+    const killed = (await worker.processes()).find((p) => p.id === server.id);
+    check(
+      'Kill process',
+      !(await server.isRunning()) && (await server.wait()) === null && killed?.running === false && killed.exitCode === null,
+      JSON.stringify(killed)
+    );
+    try {
+      await worker.getProcess('proc-missing');
+      check('Missing process', false, 'no error thrown');
+    } catch (err) {
+      check('Missing process', err instanceof ProcessNotFoundError, (err as Error).message);
+    }
+    await worker.destroy();
+  } catch (err) {
+    fail('Unexpected error during tests', err);
+    testResults.push({ name: 'Unexpected error', passed: false });
+  } finally {
+    if (sandbox) {
+      log('Cleaning up: destroying sandbox');
+      try {
+        await sandbox.destroy();
+        check('Destroy sandbox', backend.instances.size === 0, 'instance and snapshots deleted');
+      } catch (err) {
+        fail('Failed to destroy sandbox', err);
+        testResults.push({ name: 'Destroy sandbox', passed: false });
+      }
+    }
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  console.log('\n========================================');
+  console.log('              Test Summary');
+  console.log('========================================');
+  const passed = testResults.filter((t) => t.passed).length;
+  const total = testResults.length;
+  console.log(`\nPassed: ${passed}/${total}`);
+
+  if (passed === total) {
+    console.log(`\n${GREEN}All tests passed!${RESET}\n`);
+  } else {
+    console.log(`\n${RED}Some tests failed:${RESET}`);
+    testResults.filter((t) => !t.passed).forEach((t) => {
+      console.log(`  - ${t.name}`);
+    });
+    console.log('');
+    process.exitCode = 1;
+  }
+}
+
+runTests().catch(console.error);